@@ -0,0 +1,276 @@
+import { describe, expect, it, jest } from "bun:test";
+import { batch, isBatching } from "../batch";
+import { Computed } from "../computed";
+import { Observer } from "../observer";
+import { ReactiveList } from "../reactive-list";
+import { ReactiveMap } from "../reactive-map";
+import { ReactiveSet } from "../reactive-set";
+import { State } from "../state";
+
+describe("FastReactor.batch", () => {
+	it("should return the result of the callback", () => {
+		expect(batch(() => 42)).toBe(42);
+	});
+
+	it("should report whether a batch is open", () => {
+		expect(isBatching()).toBe(false);
+
+		batch(() => {
+			expect(isBatching()).toBe(true);
+		});
+
+		expect(isBatching()).toBe(false);
+	});
+
+	it("should deliver a single consistent update to observers of derived values", () => {
+		const firstName = new State("John");
+		const lastName = new State("Doe");
+		const fullName = new Computed(() => `${firstName.get()} ${lastName.get()}`);
+
+		const updates = new Array<string>();
+		Observer.watch(fullName, (value) => updates.push(value));
+		updates.length = 0;
+
+		batch(() => {
+			firstName.set("Jane");
+			lastName.set("Smith");
+		});
+
+		expect(updates).toEqual(["Jane Smith"]);
+	});
+
+	it("should defer listeners until the outermost batch exits", () => {
+		const state = new State(0);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		batch(() => {
+			state.set(1);
+			batch(() => state.set(2));
+
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(2);
+	});
+
+	it("should coalesce multiple writes to the same state", () => {
+		const state = new State(0);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		batch(() => {
+			state.set(1);
+			state.set(2);
+			state.set(3);
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(3);
+	});
+
+	it("should not notify when the value ends where it started", () => {
+		const state = new State(0);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		batch(() => {
+			state.set(1);
+			state.set(0);
+		});
+
+		expect(mockCallback).not.toHaveBeenCalled();
+	});
+
+	it("should make writes visible to peek() inside the batch", () => {
+		const state = new State(0);
+
+		batch(() => {
+			state.set(5);
+
+			expect(state.peek()).toBe(5);
+		});
+	});
+
+	it("should roll back every write if the callback throws", () => {
+		const state = new State("a");
+		const list = new ReactiveList([1, 2]);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+		list.onChange(mockCallback);
+		list.onItemAdded(mockCallback);
+
+		expect(() =>
+			batch(() => {
+				state.set("b");
+				list.add(3);
+				throw new Error("nope");
+			}),
+		).toThrow("nope");
+
+		expect(state.peek()).toBe("a");
+		expect(list.peek()).toEqual([1, 2]);
+		expect(mockCallback).not.toHaveBeenCalled();
+	});
+
+	it("should recompute values derived inside a batch that throws", () => {
+		const state = new State(0);
+		const derived = new Computed(() => state.get() * 10 + 1);
+		const list = new ReactiveList<number>([]);
+		const total = new Computed(() => list.get().reduce((sum, value) => sum + value, 0));
+		// Leaves both computeds stale, so they recompute when read in the batch.
+		state.set(1);
+		list.add(1);
+		const mockCallback = jest.fn();
+		state.onChange(mockCallback);
+
+		expect(() =>
+			batch(() => {
+				state.set(2);
+				list.add(2);
+				expect(derived.peek()).toBe(21);
+				expect(total.peek()).toBe(3);
+				throw new Error("nope");
+			}),
+		).toThrow("nope");
+
+		expect(derived.peek()).toBe(11);
+		expect(total.peek()).toBe(1);
+		expect(mockCallback).not.toHaveBeenCalled();
+	});
+
+	it("should recompute map keys and set values read inside a batch that throws", () => {
+		const map = new ReactiveMap([["x", 0]]);
+		const set = new ReactiveSet<string>();
+		const mapValue = new Computed(() => map.get("x"));
+		const hasValue = new Computed(() => set.has("x"));
+		// Leaves both computeds stale, so they recompute when read in the batch.
+		map.set("x", 1);
+		set.add("x");
+		set.delete("x");
+
+		expect(() =>
+			batch(() => {
+				map.set("x", 100);
+				set.add("x");
+				expect(mapValue.peek()).toBe(100);
+				expect(hasValue.peek()).toBe(true);
+				throw new Error("nope");
+			}),
+		).toThrow("nope");
+
+		expect(map.get("x")).toBe(1);
+		expect(mapValue.peek()).toBe(1);
+		expect(set.has("x")).toBe(false);
+		expect(hasValue.peek()).toBe(false);
+	});
+
+	it("should roll back only the writes of a nested batch that throws", () => {
+		const outer = new State(0);
+		const inner = new State(0);
+		const mockCallback = jest.fn();
+		outer.onChange(mockCallback);
+
+		batch(() => {
+			outer.set(1);
+			try {
+				batch(() => {
+					outer.set(2);
+					inner.set(2);
+					throw new Error("nope");
+				});
+			} catch {
+				// Swallowed on purpose.
+			}
+
+			expect(outer.peek()).toBe(1);
+			expect(inner.peek()).toBe(0);
+		});
+
+		expect(outer.peek()).toBe(1);
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(1);
+	});
+
+	it("should defer ReactiveList item events and deliver them in order", () => {
+		const list = new ReactiveList<string>(["a"]);
+		const events = new Array<string>();
+		list.onItemAdded((value, index) => events.push(`+${value}@${index}`));
+		list.onItemRemoved((value, index) => events.push(`-${value}@${index}`));
+		const mockCallback = jest.fn();
+		list.onChange(mockCallback);
+
+		batch(() => {
+			list.add("b");
+			list.insert(0, "c");
+			list.removeAt(1);
+
+			expect(events).toEqual([]);
+		});
+
+		expect(events).toEqual(["+b@1", "+c@0", "-a@1"]);
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(["c", "b"]);
+	});
+
+	it("should invalidate computed values over a ReactiveList once", () => {
+		const list = new ReactiveList<number>([1]);
+		const computeFunction = jest.fn(() => list.get().reduce((sum, value) => sum + value, 0));
+		const sum = new Computed(computeFunction);
+		const mockCallback = jest.fn();
+		sum.onChange(mockCallback);
+		computeFunction.mockClear();
+
+		batch(() => {
+			list.add(2);
+			list.add(3);
+		});
+
+		expect(computeFunction).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(6);
+	});
+	it("should settle every dependent when a listener throws", () => {
+		const state = new State(1);
+		const doubled = new Computed(() => state.get() * 2);
+		const tripled = new Computed(() => state.get() * 3);
+		let shouldThrow = true;
+		doubled.onChange((): void => {
+			if (!shouldThrow) return;
+			shouldThrow = false;
+			throw new Error("once");
+		});
+		const mockCallback = jest.fn();
+		tripled.onChange(mockCallback);
+
+		expect(() => state.set(2)).toThrow("once");
+		expect(mockCallback).toHaveBeenCalledWith(6);
+
+		state.set(3);
+
+		expect(mockCallback).toHaveBeenCalledWith(9);
+	});
+
+	it("should report every error thrown while settling", () => {
+		const state = new State(1);
+		for (const factor of [2, 3]) {
+			new Computed(() => state.get() * factor).onChange((): void => {
+				throw new Error(`listener ${factor}`);
+			});
+		}
+
+		expect(() => state.set(2)).toThrow(AggregateError);
+	});
+	it("should settle dependents when a source listener throws", () => {
+		const state = new State(1);
+		const doubled = new Computed(() => state.get() * 2);
+		const mockCallback = jest.fn();
+		Observer.watch(doubled, mockCallback);
+		state.onChange((): void => {
+			throw new Error("listener");
+		});
+
+		expect(() => state.set(2)).toThrow("listener");
+		expect(mockCallback).toHaveBeenCalledWith(4);
+	});
+});
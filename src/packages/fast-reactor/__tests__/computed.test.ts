@@ -1,5 +1,6 @@
 import { describe, expect, it, jest } from "bun:test";
 import { Computed } from "../computed";
+import { deepEqual } from "../equality";
 import { State } from "../state";
 
 describe("FastReactor.Computed", () => {
@@ -105,6 +106,37 @@ describe("FastReactor.Computed", () => {
 		expect(mockCallback).not.toHaveBeenCalled();
 	});
 
+	it("should use a custom equality comparator", () => {
+		const state = new State(1);
+		const computed = new Computed(() => ({ isPositive: state.get() > 0 }), { equals: deepEqual });
+		const initial = computed.peek();
+
+		const mockCallback = jest.fn();
+		computed.onChange(mockCallback);
+
+		state.set(2);
+
+		expect(mockCallback).not.toHaveBeenCalled();
+		expect(computed.peek()).toBe(initial);
+
+		state.set(-1);
+
+		expect(mockCallback).toHaveBeenCalledWith({ isPositive: false });
+	});
+
+	it("should not recompute dependents when the comparator reports no change", () => {
+		const state = new State([1, 2]);
+		const sorted = new Computed(() => state.get().toSorted(), { equals: deepEqual });
+		const computeFunction = jest.fn(() => sorted.get().join(","));
+		const joined = new Computed(computeFunction);
+		joined.onChange(() => undefined);
+
+		state.set([2, 1]);
+
+		expect(computeFunction).toHaveBeenCalledTimes(1);
+		expect(joined.peek()).toBe("1,2");
+	});
+
 	it("map() should create a derived computed value", () => {
 		const state = new State(2);
 		const doubled = new Computed(() => state.get() * 2);
@@ -141,6 +173,34 @@ describe("FastReactor.Computed", () => {
 		expect(finalComputed.peek()).toBe(12); // (2 * 2) * 3
 	});
 
+	it("dispose() should detach the computed from its dependencies", () => {
+		const state = new State(1);
+		const computeFunction = jest.fn(() => state.get() * 2);
+		const computed = new Computed(computeFunction);
+		const mockCallback = jest.fn();
+		computed.onChange(mockCallback);
+
+		computed.dispose();
+		state.set(2);
+
+		expect(computed.isDisposed).toBe(true);
+		expect(computeFunction).toHaveBeenCalledTimes(1);
+		expect(mockCallback).not.toHaveBeenCalled();
+		expect(computed.peek()).toBe(2);
+	});
+
+	it("dispose() should stop map() from recomputing", () => {
+		const state = new State(1);
+		const selector = jest.fn((value: number) => value + 1);
+		const mapped = state.map(selector);
+
+		mapped.dispose();
+		state.set(2);
+
+		expect(mapped.peek()).toBe(2);
+		expect(selector).toHaveBeenCalledTimes(1);
+	});
+
 	it("forceEager=false should not recompute immediately", () => {
 		const state = new State(1);
 
@@ -182,4 +242,174 @@ describe("FastReactor.Computed", () => {
 		// Callback should be called immediately due to forceEager
 		expect(mockFunc).toHaveBeenCalledWith(10);
 	});
+
+	describe("array operators", () => {
+		const createCities = () =>
+			new State([
+				{ name: "Seattle", population: 750 },
+				{ name: "Portland", population: 650 },
+				{ name: "Boise", population: 240 },
+			]);
+
+		it("should throw when the value is not an array", () => {
+			const computed = new Computed(() => 42);
+
+			expect(() => computed.every(() => true)).toThrow("This operation is only available on computed arrays");
+			expect(() => computed.length()).toThrow("This operation is only available on computed arrays");
+		});
+
+		it("should test the items", () => {
+			const citiesState = createCities();
+			const cities = new Computed(() => citiesState.get());
+			const areLarge = cities.every((city) => city.population > 500);
+			const hasLarge = cities.some((city) => city.population > 500);
+
+			expect(areLarge.peek()).toBe(false);
+			expect(hasLarge.peek()).toBe(true);
+
+			citiesState.set([{ name: "Seattle", population: 750 }]);
+
+			expect(areLarge.peek()).toBe(true);
+		});
+
+		it("should filter and map the items", () => {
+			const citiesState = createCities();
+			const cities = new Computed(() => citiesState.get());
+			const large = cities.filterItems((city) => city.population > 500);
+			const names = large.mapItems((city) => city.name);
+
+			expect(names.peek()).toEqual(["Seattle", "Portland"]);
+
+			citiesState.set([...citiesState.peek(), { name: "Tacoma", population: 900 }]);
+
+			expect(names.peek()).toEqual(["Seattle", "Portland", "Tacoma"]);
+		});
+
+		it("should find items", () => {
+			const cities = new Computed(() => createCities().get());
+
+			expect(cities.find((city) => city.name === "Boise").peek()?.population).toBe(240);
+			expect(cities.find((city) => city.name === "Tacoma").peek()).toBeUndefined();
+			expect(cities.findIndex((city) => city.name === "Portland").peek()).toBe(1);
+			expect(cities.findIndex((city) => city.name === "Tacoma").peek()).toBe(-1);
+		});
+
+		it("should reduce, count and join the items", () => {
+			const numbersState = new State([3, 1, 2]);
+			const numbers = new Computed(() => numbersState.get());
+			const total = numbers.reduce((sum, value) => sum + value, 0);
+			const length = numbers.length();
+			const joined = numbers.join("-");
+			const hasTwo = numbers.includes(2);
+
+			expect(total.peek()).toBe(6);
+			expect(length.peek()).toBe(3);
+			expect(joined.peek()).toBe("3-1-2");
+			expect(hasTwo.peek()).toBe(true);
+
+			numbersState.set([4, 5]);
+
+			expect(total.peek()).toBe(9);
+			expect(length.peek()).toBe(2);
+			expect(joined.peek()).toBe("4-5");
+			expect(hasTwo.peek()).toBe(false);
+		});
+
+		it("should sort a copy of the items", () => {
+			const source = [3, 1, 2];
+			const numbers = new Computed(() => source);
+			const sorted = numbers.sort((a, b) => a - b);
+
+			expect(sorted.peek()).toEqual([1, 2, 3]);
+			expect(source).toEqual([3, 1, 2]);
+		});
+	});
+
+	describe("errors", () => {
+		const parse = (text: string): number => {
+			const value = Number.parseInt(text, 10);
+			if (Number.isNaN(value)) throw new Error(`Not a number: ${text}`);
+			return value;
+		};
+
+		it("should capture errors and rethrow them on every read", () => {
+			const text = new State("oops");
+			const parsed = new Computed(() => parse(text.get()));
+
+			expect(parsed.isErrored).toBe(true);
+			expect(() => parsed.get()).toThrow("Not a number: oops");
+			expect(() => parsed.peek()).toThrow("Not a number: oops");
+
+			text.set("12");
+
+			expect(parsed.isErrored).toBe(false);
+			expect(parsed.peek()).toBe(12);
+		});
+
+		it("should expose the error as a reactive", () => {
+			const text = new State("1");
+			const parsed = new Computed(() => parse(text.get()));
+			const mockFunc = jest.fn();
+			parsed.error.onChange(mockFunc);
+
+			expect(parsed.error.peek()).toBeUndefined();
+
+			text.set("oops");
+
+			expect(mockFunc).toHaveBeenCalledTimes(1);
+			expect((parsed.error.peek() as Error).message).toBe("Not a number: oops");
+
+			text.set("2");
+
+			expect(mockFunc).toHaveBeenCalledTimes(2);
+			expect(parsed.error.peek()).toBeUndefined();
+		});
+
+		it("should propagate errors to downstream computeds", () => {
+			const text = new State("1");
+			const parsed = new Computed(() => parse(text.get()));
+			const doubled = parsed.map((value) => value * 2);
+
+			text.set("oops");
+
+			expect(doubled.isErrored).toBe(true);
+			expect(() => doubled.peek()).toThrow("Not a number: oops");
+
+			text.set("3");
+
+			expect(doubled.peek()).toBe(6);
+		});
+
+		it("should call error handlers instead of change listeners", () => {
+			const text = new State("1");
+			const doubled = new Computed(() => parse(text.get())).map((value) => value * 2);
+			const onChange = jest.fn();
+			const onError = jest.fn();
+			doubled.onChange(onChange);
+			doubled.onError(onError);
+
+			text.set("oops");
+
+			expect(onChange).not.toHaveBeenCalled();
+			expect(onError).toHaveBeenCalledTimes(1);
+
+			text.set("4");
+
+			expect(onChange).toHaveBeenCalledWith(8);
+			expect(onError).toHaveBeenCalledTimes(1);
+		});
+
+		it("should replace errors with the fallback", () => {
+			const text = new State("oops");
+			const parsed = new Computed(() => parse(text.get()));
+			const safe = parsed.catchError(() => 0);
+
+			expect(safe.isErrored).toBe(false);
+			expect(safe.peek()).toBe(0);
+
+			text.set("5");
+
+			expect(safe.peek()).toBe(5);
+		});
+	});
 });
@@ -0,0 +1,170 @@
+import { describe, expect, it, jest } from "bun:test";
+import { Computed } from "../computed";
+import { getCurrentDependent, inspect, toDot, toMermaid, track, untrack } from "../dependency-tracker";
+import { Effect } from "../effect";
+import { ReactiveList } from "../reactive-list";
+import { State } from "../state";
+
+describe("FastReactor.DependencyTracker", () => {
+	describe("track", () => {
+		it("should keep the dependencies read before and after a nested computation", () => {
+			const before = new State(1);
+			const inner = new State(10);
+			const after = new State(100);
+			const nested = new Computed(() => inner.get() * 2);
+			const outer = new Computed(() => before.get() + nested.get() + after.get());
+
+			inner.set(20); // leaves `nested` dirty, so reading it recomputes mid-computation
+			before.set(2);
+
+			expect(outer.peek()).toBe(142);
+
+			after.set(200);
+
+			expect(outer.peek()).toBe(242);
+
+			before.set(3);
+
+			expect(outer.peek()).toBe(243);
+		});
+
+		it("should keep subscriptions through several levels of dirty computeds", () => {
+			const source = new State(1);
+			const other = new State(0);
+			const first = new Computed(() => source.get() + 1);
+			const second = new Computed(() => first.get() + 1);
+			const third = new Computed(() => other.get() + second.get() + other.get());
+			const mockFunc = jest.fn();
+			third.onChange(mockFunc);
+
+			source.set(2);
+			other.set(10);
+
+			expect(mockFunc.mock.calls).toEqual([[4], [24]]);
+		});
+
+		it("should collect each frame's dependencies separately", () => {
+			const outerState = new State(1);
+			const innerState = new State(2);
+			const outerDependent = { invalidate: jest.fn() };
+			const innerDependent = { invalidate: jest.fn() };
+
+			const { dependencies: outerDependencies, result } = track(outerDependent, () => {
+				outerState.get();
+				const inner = track(innerDependent, () => innerState.get());
+				outerState.get();
+				return inner;
+			});
+
+			expect([...outerDependencies]).toEqual([outerState]);
+			expect([...result.dependencies]).toEqual([innerState]);
+			expect(getCurrentDependent()).toBeUndefined();
+		});
+	});
+
+	describe("untrack", () => {
+		it("should not subscribe to reactives read inside the callback", () => {
+			const city = new State("Seattle");
+			const limit = new State(10);
+			const label = new Computed(() => `${city.get()} (${untrack(() => limit.get())})`);
+
+			limit.set(20);
+
+			expect(label.peek()).toBe("Seattle (10)");
+
+			city.set("Portland");
+
+			expect(label.peek()).toBe("Portland (20)");
+		});
+
+		it("should resume tracking after the callback", () => {
+			const ignored = new State(1);
+			const tracked = new State(1);
+			const sum = new Computed(() => untrack(() => ignored.get()) + tracked.get());
+
+			tracked.set(2);
+
+			expect(sum.peek()).toBe(3);
+			expect(inspect(sum).nodes.map((node) => node.kind)).toEqual(["Computed", "State"]);
+		});
+
+		it("should restore tracking when the callback throws", () => {
+			const state = new State(1);
+			const computed = new Computed(() => {
+				try {
+					untrack(() => {
+						throw new Error("Failed");
+					});
+				} catch {
+					// Ignored.
+				}
+				return state.get();
+			});
+
+			state.set(2);
+
+			expect(computed.peek()).toBe(2);
+		});
+	});
+
+	describe("inspect", () => {
+		it("should describe upstream and downstream nodes", () => {
+			const limit = new State(10, { debugName: "limit" });
+			const cities = new ReactiveList(["Seattle"], { debugName: "cities" });
+			const visible = new Computed(() => cities.get().slice(0, limit.get()), { debugName: "visible" });
+			const count = new Computed(() => visible.get().length, { debugName: "count" });
+			const _effect = new Effect(() => count.get());
+
+			const graph = inspect(visible);
+			const names = graph.nodes.map((node) => node.name);
+			const idOf = (name: string): number => graph.nodes.find((node) => node.name === name)!.id;
+
+			expect(names[0]).toBe("visible");
+			expect(names.toSorted()).toEqual(["Effect#4", "cities", "count", "limit", "visible"]);
+			expect(graph.edges).toContainEqual({ from: idOf("limit"), to: idOf("visible") });
+			expect(graph.edges).toContainEqual({ from: idOf("cities"), to: idOf("visible") });
+			expect(graph.edges).toContainEqual({ from: idOf("visible"), to: idOf("count") });
+			expect(graph.edges).toContainEqual({ from: idOf("count"), to: idOf("Effect#4") });
+			expect(graph.edges).toHaveLength(4);
+		});
+
+		it("should report recompute counts and last-changed timestamps", () => {
+			const limit = new State(10, { debugName: "limit" });
+			const doubled = new Computed(() => limit.get() * 2, { debugName: "doubled" });
+
+			const before = Date.now();
+			limit.set(20);
+			doubled.peek();
+
+			const [doubledNode, limitNode] = inspect(doubled).nodes;
+			expect(doubledNode?.recomputeCount).toBe(2);
+			expect(doubledNode?.lastChangedAt).toBeGreaterThanOrEqual(before);
+			expect(limitNode?.kind).toBe("State");
+			expect(limitNode?.lastChangedAt).toBeGreaterThanOrEqual(before);
+		});
+	});
+
+	describe("exporters", () => {
+		const limit = new State(10, { debugName: 'the "limit"' });
+		const doubled = new Computed(() => limit.get() * 2);
+		const graph = inspect(doubled);
+
+		it("toDot() should render a Graphviz digraph", () => {
+			expect(toDot(graph)).toBe(
+				[
+					"digraph {",
+					'\tn0 [label="Computed#0"];',
+					'\tn1 [label="the \\"limit\\" (State)"];',
+					"\tn1 -> n0;",
+					"}",
+				].join("\n"),
+			);
+		});
+
+		it("toMermaid() should render a flowchart", () => {
+			expect(toMermaid(graph)).toBe(
+				["graph LR", '\tn0["Computed#0"]', '\tn1["the #quot;limit#quot; (State)"]', "\tn1 --> n0"].join("\n"),
+			);
+		});
+	});
+});
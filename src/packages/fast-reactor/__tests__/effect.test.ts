@@ -0,0 +1,147 @@
+import { describe, expect, it, jest } from "bun:test";
+import { batch } from "../batch";
+import { Computed } from "../computed";
+import { Effect } from "../effect";
+import { ReactiveList } from "../reactive-list";
+import { State } from "../state";
+
+describe("FastReactor.Effect", () => {
+	it("should run immediately", () => {
+		const mockCallback = jest.fn();
+		const _effect = new Effect(mockCallback);
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+	});
+
+	it("should re-run when a state it reads changes", () => {
+		const state = new State(1);
+		const values = new Array<number>();
+		const _effect = new Effect(() => {
+			values.push(state.get());
+		});
+
+		state.set(2);
+		state.set(3);
+
+		expect(values).toEqual([1, 2, 3]);
+	});
+
+	it("should track computed values and reactive lists", () => {
+		const list = new ReactiveList<number>([1, 2]);
+		const multiplier = new State(1);
+		const total = new Computed(() => list.get().reduce((sum, value) => sum + value, 0));
+		const values = new Array<number>();
+		const _effect = new Effect(() => {
+			values.push(total.get() * multiplier.get());
+		});
+
+		list.add(3);
+		multiplier.set(2);
+
+		expect(values).toEqual([3, 6, 12]);
+	});
+
+	it("should only subscribe to what the latest run read", () => {
+		const toggle = new State(true);
+		const a = new State("a");
+		const b = new State("b");
+		const mockCallback = jest.fn(() => (toggle.get() ? a.get() : b.get()));
+		const _effect = new Effect(mockCallback);
+
+		toggle.set(false);
+
+		expect(mockCallback).toHaveBeenCalledTimes(2);
+
+		a.set("A");
+
+		expect(mockCallback).toHaveBeenCalledTimes(2);
+
+		b.set("B");
+
+		expect(mockCallback).toHaveBeenCalledTimes(3);
+	});
+
+	it("should not re-run when an upstream computed is unchanged", () => {
+		const state = new State(1);
+		const isPositive = new Computed(() => state.get() > 0);
+		const mockCallback = jest.fn(() => isPositive.get());
+		const _effect = new Effect(mockCallback);
+
+		state.set(2);
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+	});
+
+	it("should run once per batch", () => {
+		const a = new State(1);
+		const b = new State(1);
+		const mockCallback = jest.fn(() => a.get() + b.get());
+		const _effect = new Effect(mockCallback);
+
+		batch(() => {
+			a.set(2);
+			b.set(2);
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(2);
+	});
+
+	it("should run cleanups before each re-run", () => {
+		const state = new State(1);
+		const events = new Array<string>();
+		const _effect = new Effect((onCleanup) => {
+			const value = state.get();
+			events.push(`run ${value}`);
+			onCleanup(() => events.push(`cleanup ${value}`));
+		});
+
+		state.set(2);
+
+		expect(events).toEqual(["run 1", "cleanup 1", "run 2"]);
+	});
+
+	it("dispose() should run the last cleanups and stop re-running", () => {
+		const state = new State(1);
+		const cleanup = jest.fn();
+		const mockCallback = jest.fn((onCleanup: (cleanup: () => void) => void) => {
+			state.get();
+			onCleanup(cleanup);
+		});
+		const effect = new Effect(mockCallback);
+
+		effect.dispose();
+
+		expect(cleanup).toHaveBeenCalledTimes(1);
+		expect(effect.isDisposed).toBe(true);
+
+		state.set(2);
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+	});
+
+	it("dispose() should be idempotent", () => {
+		const cleanup = jest.fn();
+		const effect = new Effect((onCleanup) => onCleanup(cleanup));
+
+		effect.dispose();
+		effect.dispose();
+
+		expect(cleanup).toHaveBeenCalledTimes(1);
+	});
+	it("should run again after the effect function throws", () => {
+		const state = new State(1);
+		const mockCallback = jest.fn();
+		const effect = new Effect(() => {
+			const value = state.get();
+			if (value === 2) throw new Error("nope");
+			mockCallback(value);
+		});
+
+		expect(() => state.set(2)).toThrow("nope");
+
+		state.set(3);
+
+		expect(mockCallback).toHaveBeenLastCalledWith(3);
+		expect(effect.getDebugInfo().dependencies).toEqual([state]);
+	});
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import { deepEqual, shallowEqual, strictEqual } from "../equality";
+
+describe("FastReactor.equality", () => {
+	describe("strictEqual", () => {
+		it("should compare by reference", () => {
+			expect(strictEqual(1, 1)).toBe(true);
+			expect(strictEqual({}, {})).toBe(false);
+		});
+	});
+
+	describe("shallowEqual", () => {
+		it("should compare primitives", () => {
+			expect(shallowEqual(1, 1)).toBe(true);
+			expect(shallowEqual("a", "b")).toBe(false);
+			expect(shallowEqual(Number.NaN, Number.NaN)).toBe(true);
+		});
+
+		it("should compare plain objects one level deep", () => {
+			expect(shallowEqual({ a: 1, b: "x" }, { a: 1, b: "x" })).toBe(true);
+			expect(shallowEqual({ a: 1 }, { a: 2 })).toBe(false);
+			expect(shallowEqual<object>({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+			expect(shallowEqual({ a: { b: 1 } }, { a: { b: 1 } })).toBe(false);
+		});
+
+		it("should compare arrays, maps, sets and dates", () => {
+			expect(shallowEqual([1, 2], [1, 2])).toBe(true);
+			expect(shallowEqual([1, 2], [2, 1])).toBe(false);
+			expect(shallowEqual(new Map([["a", 1]]), new Map([["a", 1]]))).toBe(true);
+			expect(shallowEqual(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+			expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+			expect(shallowEqual(new Date(0), new Date(0))).toBe(true);
+		});
+
+		it("should not consider different kinds of collections equal", () => {
+			expect(shallowEqual<unknown>([], {})).toBe(false);
+			expect(shallowEqual<unknown>(new Map(), new Set())).toBe(false);
+		});
+	});
+
+	describe("deepEqual", () => {
+		it("should compare nested structures", () => {
+			expect(deepEqual({ a: [1, { b: new Date(5) }] }, { a: [1, { b: new Date(5) }] })).toBe(true);
+			expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+			expect(deepEqual(new Map([["a", { b: 1 }]]), new Map([["a", { b: 1 }]]))).toBe(true);
+		});
+
+		it("should support circular references", () => {
+			interface Node {
+				self?: Node;
+				value: number;
+			}
+			const left: Node = { value: 1 };
+			left.self = left;
+			const right: Node = { value: 1 };
+			right.self = right;
+
+			expect(deepEqual(left, right)).toBe(true);
+		});
+	});
+});
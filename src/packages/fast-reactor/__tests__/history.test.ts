@@ -0,0 +1,146 @@
+import { describe, expect, it } from "bun:test";
+import { batch } from "../batch";
+import { History } from "../history";
+import { ReactiveList } from "../reactive-list";
+import { State } from "../state";
+
+describe("FastReactor.History", () => {
+	it("should undo and redo changes to a State", () => {
+		const history = new History();
+		const limit = new State(10);
+		history.attach(limit);
+
+		limit.set(20);
+		limit.set(30);
+
+		expect(history.undo()).toBe(true);
+		expect(limit.peek()).toBe(20);
+		expect(history.undo()).toBe(true);
+		expect(limit.peek()).toBe(10);
+		expect(history.undo()).toBe(false);
+		expect(history.redo()).toBe(true);
+		expect(limit.peek()).toBe(20);
+	});
+
+	it("should undo changes to a ReactiveList", () => {
+		const history = new History();
+		const cities = new ReactiveList(["Seattle"]);
+		history.attach(cities);
+
+		cities.add("Portland");
+		cities.removeAt(0);
+
+		history.undo();
+		expect(cities.peek()).toEqual(["Seattle", "Portland"]);
+		history.undo();
+		expect(cities.peek()).toEqual(["Seattle"]);
+	});
+
+	it("should coalesce changes made in a batch into one step", () => {
+		const history = new History();
+		const limit = new State(10);
+		const outputType = new State("table");
+		history.attach(limit);
+		history.attach(outputType);
+
+		batch(() => {
+			limit.set(20);
+			outputType.set("json");
+			limit.set(30);
+		});
+		history.undo();
+
+		expect(limit.peek()).toBe(10);
+		expect(outputType.peek()).toBe("table");
+		expect(history.canUndo.peek()).toBe(false);
+	});
+
+	it("should not record an undo or redo made inside a batch", () => {
+		const history = new History();
+		const limit = new State(10);
+		const outputType = new State("table");
+		history.attach(limit);
+		history.attach(outputType);
+
+		limit.set(20);
+		batch(() => history.undo());
+
+		expect(limit.peek()).toBe(10);
+		expect(history.canUndo.peek()).toBe(false);
+		expect(history.canRedo.peek()).toBe(true);
+
+		batch(() => {
+			history.redo();
+			outputType.set("json");
+		});
+
+		expect(limit.peek()).toBe(20);
+		expect(history.undo()).toBe(true);
+		expect(outputType.peek()).toBe("table");
+		expect(limit.peek()).toBe(20);
+		expect(history.undo()).toBe(true);
+		expect(limit.peek()).toBe(10);
+	});
+
+	it("should expose reactive canUndo and canRedo", () => {
+		const history = new History();
+		const limit = new State(10);
+		history.attach(limit);
+		const canUndo = new Array<boolean>();
+		history.canUndo.onChange((value) => canUndo.push(value));
+
+		expect(history.canUndo.peek()).toBe(false);
+		limit.set(20);
+		expect(history.canRedo.peek()).toBe(false);
+		history.undo();
+		expect(history.canRedo.peek()).toBe(true);
+		limit.set(15);
+
+		expect(history.canRedo.peek()).toBe(false);
+		expect(canUndo).toEqual([true, false, true]);
+	});
+
+	it("should drop the oldest steps beyond the capacity", () => {
+		const history = new History({ capacity: 2 });
+		const limit = new State(0);
+		history.attach(limit);
+
+		limit.set(1);
+		limit.set(2);
+		limit.set(3);
+
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(false);
+		expect(limit.peek()).toBe(1);
+	});
+
+	it("should undo to a labeled checkpoint", () => {
+		const history = new History();
+		const limit = new State(0);
+		history.attach(limit);
+
+		limit.set(1);
+		history.checkpoint("first");
+		limit.set(2);
+		limit.set(3);
+		history.undoTo("first");
+
+		expect(limit.peek()).toBe(1);
+		expect(() => history.undoTo("missing")).toThrow("Unknown checkpoint");
+
+		history.undo();
+		expect(() => history.undoTo("first")).toThrow("no longer in the history");
+	});
+
+	it("should stop recording once detached", () => {
+		const history = new History();
+		const limit = new State(0);
+		const detach = history.attach(limit);
+
+		detach();
+		limit.set(1);
+
+		expect(history.undo()).toBe(false);
+	});
+});
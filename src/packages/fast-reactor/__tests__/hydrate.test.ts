@@ -1,5 +1,5 @@
-import { describe, expect, it } from "bun:test";
-import { Computed, hydrate, State } from "..";
+import { describe, expect, it, jest } from "bun:test";
+import { Computed, hydrate, isReactive, ReactiveList, State } from "..";
 
 describe("FastReactor.hydrate", () => {
 	it("should bind state values to object properties", () => {
@@ -152,4 +152,110 @@ describe("FastReactor.hydrate", () => {
 
 		expect(typeof result).toEqual("function");
 	});
+
+	it("should treat objects with a value property as constants", () => {
+		// Arrange
+		const option = { label: "Seattle", value: 1 };
+		const object = {} as { option: { label: string; value: number } };
+
+		// Act
+		hydrate(object, { option });
+
+		// Assert
+		expect(isReactive(option)).toBe(false);
+		expect(isReactive(new ReactiveList([1]))).toBe(true);
+		expect(object.option).toBe(option);
+	});
+
+	it("should write assignments back to two-way bindings", () => {
+		// Arrange
+		const limitState = new State(10);
+		const object = { limit: 0 };
+
+		// Act
+		const cleanup = hydrate(object, { limit: limitState }, { keys: { limit: { twoWay: true } } });
+		object.limit = 25;
+
+		// Assert
+		expect(limitState.peek()).toBe(25);
+		expect(object.limit).toBe(25);
+
+		limitState.set(50);
+
+		expect(object.limit).toBe(50);
+
+		cleanup();
+		object.limit = 75;
+
+		expect(limitState.peek()).toBe(50);
+		expect(object.limit).toBe(75);
+	});
+
+	it("should reject two-way bindings to read-only reactives", () => {
+		// Arrange
+		const limitState = new State(10);
+		const doubled = new Computed(() => limitState.get() * 2);
+		const object = { doubled: 0, limit: 0 };
+
+		// Act & Assert
+		expect(() => hydrate(object, { limit: limitState, doubled }, { keys: { doubled: { twoWay: true } } })).toThrow(
+			'Cannot bind "doubled" two-way',
+		);
+
+		limitState.set(5);
+
+		expect(object.limit).toBe(10);
+	});
+
+	it("should transform and validate values", () => {
+		// Arrange
+		const nameState = new State("  John ");
+		const ageState = new State(30);
+		const onError = jest.fn();
+		const object = { age: 0, name: "" };
+
+		// Act
+		hydrate(
+			object,
+			{ age: ageState, name: nameState },
+			{
+				keys: {
+					age: { twoWay: true, validate: (age) => age >= 0 },
+					name: { transform: (name) => name.trim() },
+				},
+				onError,
+			},
+		);
+
+		// Assert
+		expect(object.name).toBe("John");
+
+		object.age = -1;
+
+		expect(ageState.peek()).toBe(30);
+		expect(object.age).toBe(30);
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect((onError.mock.calls[0]?.[0] as Error).name).toBe("BindingError");
+
+		ageState.set(-5);
+
+		expect(object.age).toBe(30);
+		expect(onError).toHaveBeenCalledTimes(2);
+	});
+
+	it("should throw binding errors when no error handler is given", () => {
+		// Arrange
+		const ageState = new State(30);
+		const object = { age: 0 };
+		const options = { keys: { age: { twoWay: true, validate: (age: number): boolean => age >= 0 } } };
+		hydrate(object, { age: ageState }, options);
+
+		// Act & Assert
+		expect(() => {
+			object.age = -1;
+		}).toThrow("Invalid value");
+		expect(() => ageState.set(-5)).toThrow("Invalid value");
+		expect(object.age).toBe(30);
+		expect(() => hydrate({ age: 0 }, { age: new State(-1) }, options)).toThrow("Invalid value");
+	});
 });
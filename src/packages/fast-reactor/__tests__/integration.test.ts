@@ -1,5 +1,5 @@
-import { describe, expect, it } from "bun:test";
-import { Computed, Observer, ReactiveList, State } from "..";
+import { describe, expect, it, jest } from "bun:test";
+import { CircularDependencyError, Computed, DependencyTracker, Observer, ReactiveList, State } from "..";
 
 const ALMOST_VICTORY = "Almost Victory";
 const HELL_JANE = "Hello, Jane!";
@@ -41,16 +41,166 @@ describe("Integration tests", () => {
 		expect(updates).toEqual([HELLO_JANE_DOE, HELLO_JANE_SMITH, HELL_JANE, "Hello, Jane Johnson!"]);
 	});
 
-	it("should handle circular dependencies gracefully", () => {
-		const count = new State(0);
-		const doubled = new Computed(() => count.get() * 2);
+	it("should report circular dependencies with the full cycle", () => {
+		const isLinked = new State(false);
+		const first: Computed<number> = new Computed(() => (isLinked.get() ? third.get() : 0), { debugName: "first" });
+		const second = new Computed(() => first.get() + 1, { debugName: "second" });
+		const third = new Computed(() => second.get() + 1, { debugName: "third" });
 
-		expect(count.peek()).toBe(0);
-		expect(doubled.peek()).toBe(0);
+		expect(third.peek()).toBe(2);
 
-		count.set(5);
+		isLinked.set(true);
 
-		expect(doubled.peek()).toBe(10);
+		expect(() => first.peek()).toThrow(CircularDependencyError);
+		expect(() => first.peek()).toThrow("Circular dependency detected: first -> third -> second -> first");
+	});
+
+	it("should report a computed that reads itself", () => {
+		const isRecursive = new State(false);
+		const count: Computed<number> = new Computed(() => (isRecursive.get() ? count.get() + 1 : 0), {
+			debugName: "count",
+		});
+
+		isRecursive.set(true);
+
+		expect(() => count.peek()).toThrow("Circular dependency detected: count -> count");
+	});
+
+	it("should leave the graph consistent after a circular dependency", () => {
+		const isLinked = new State(false);
+		const first: Computed<number> = new Computed(() => (isLinked.get() ? second.get() : 0));
+		const second = new Computed(() => first.get() + 1);
+
+		isLinked.set(true);
+
+		expect(() => second.peek()).toThrow(CircularDependencyError);
+		expect(DependencyTracker.inspect(isLinked).edges).toHaveLength(0);
+
+		isLinked.set(false);
+
+		expect(second.peek()).toBe(1);
+		expect(first.peek()).toBe(0);
+		expect(DependencyTracker.inspect(second).edges).toHaveLength(2);
+	});
+
+	describe("glitch-free propagation", () => {
+		it("should never observe a torn value in a diamond", () => {
+			const a = new State(1);
+			const b = new Computed(() => a.get() * 2);
+			const c = new Computed(() => a.get() + 10);
+			const d = new Computed(() => `${b.get()}:${c.get()}`);
+
+			const updates = new Array<string>();
+			Observer.watch(d, (value) => updates.push(value));
+			updates.length = 0;
+
+			a.set(2);
+
+			expect(updates).toEqual(["4:12"]);
+
+			a.set(3);
+
+			expect(updates).toEqual(["4:12", "6:13"]);
+		});
+
+		it("should recompute each node of a diamond once per source change", () => {
+			const a = new State(1);
+			const bCompute = jest.fn(() => a.get() * 2);
+			const cCompute = jest.fn(() => a.get() * 3);
+			const b = new Computed(bCompute);
+			const c = new Computed(cCompute);
+			const dCompute = jest.fn(() => b.get() + c.get());
+			const d = new Computed(dCompute);
+			const mockCallback = jest.fn();
+			d.onChange(mockCallback);
+			bCompute.mockClear();
+			cCompute.mockClear();
+			dCompute.mockClear();
+
+			a.set(2);
+
+			expect(bCompute).toHaveBeenCalledTimes(1);
+			expect(cCompute).toHaveBeenCalledTimes(1);
+			expect(dCompute).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith(10);
+		});
+
+		it("should not recompute downstream when an intermediate value is unchanged", () => {
+			const a = new State(1);
+			const isPositive = new Computed(() => a.get() > 0);
+			const labelCompute = jest.fn(() => (isPositive.get() ? "positive" : "negative"));
+			const label = new Computed(labelCompute);
+			const mockCallback = jest.fn();
+			label.onChange(mockCallback);
+			labelCompute.mockClear();
+
+			a.set(2);
+
+			expect(labelCompute).not.toHaveBeenCalled();
+			expect(mockCallback).not.toHaveBeenCalled();
+
+			a.set(-1);
+
+			expect(labelCompute).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith("negative");
+		});
+
+		it("should settle a deep chain once, from the top down", () => {
+			const source = new State(0);
+			const chain = new Array<Computed<number>>();
+			let previous: Computed<number> | State<number> = source;
+			for (let index = 0; index < 100; index += 1) {
+				const upstream: Computed<number> | State<number> = previous;
+				const computed: Computed<number> = new Computed(() => upstream.get() + 1);
+				chain.push(computed);
+				previous = computed;
+			}
+
+			const order = new Array<number>();
+			for (const [index, computed] of chain.entries()) computed.onChange(() => order.push(index));
+
+			source.set(1);
+
+			expect(chain.at(-1)?.peek()).toBe(101);
+			expect(order).toEqual(chain.map((_, index) => index));
+		});
+
+		it("should settle a wide diamond over a deep chain exactly once", () => {
+			const source = new State(1);
+			let left: Computed<number> = new Computed(() => source.get());
+			for (let index = 0; index < 10; index += 1) {
+				const upstream = left;
+				left = new Computed(() => upstream.get() + 1);
+			}
+			const right = new Computed(() => source.get() * 100);
+			const leftEnd = left;
+			const sum = new Computed(() => leftEnd.get() + right.get());
+
+			const updates = new Array<number>();
+			Observer.watch(sum, (value) => updates.push(value));
+			updates.length = 0;
+
+			source.set(2);
+
+			expect(updates).toEqual([212]);
+		});
+
+		it("should propagate writes made by listeners after the graph settles", () => {
+			const a = new State(1);
+			const b = new State(0);
+			const doubled = new Computed(() => a.get() * 2);
+			const total = new Computed(() => doubled.get() + b.get());
+			doubled.onChange((value) => b.set(value));
+
+			const updates = new Array<number>();
+			Observer.watch(total, (value) => updates.push(value));
+			updates.length = 0;
+
+			a.set(2);
+
+			expect(updates).toEqual([8]);
+		});
 	});
 
 	describe("reactiveList Integration", () => {
@@ -0,0 +1,222 @@
+import { describe, expect, it, jest } from "bun:test";
+import { EventEmitter } from "node:events";
+import { watch } from "chokidar";
+import { batch } from "../batch";
+import { fromAsyncIterable, fromEvent, toAsyncIterable } from "../interop";
+import { ReactiveList } from "../reactive-list";
+import { createScope } from "../scope";
+import { State } from "../state";
+
+describe("FastReactor.Interop", () => {
+	describe("toAsyncIterable", () => {
+		it("should yield the current value and every later value", async () => {
+			const state = new State(1);
+			const iterator = toAsyncIterable(state);
+
+			expect(await iterator.next()).toEqual({ done: false, value: 1 });
+
+			state.set(2);
+			state.set(3);
+
+			expect(await iterator.next()).toEqual({ done: false, value: 2 });
+			expect(await iterator.next()).toEqual({ done: false, value: 3 });
+
+			const pending = iterator.next();
+			state.set(4);
+
+			expect(await pending).toEqual({ done: false, value: 4 });
+
+			await iterator.return();
+			state.set(5);
+
+			expect(await iterator.next()).toEqual({ done: true, value: undefined });
+		});
+
+		it("should skip batches that leave the value unchanged", async () => {
+			const state = new State(1);
+			const iterator = toAsyncIterable(state);
+			await iterator.next();
+
+			batch(() => {
+				state.set(2);
+				state.set(1);
+			});
+			state.set(3);
+
+			expect(await iterator.next()).toEqual({ done: false, value: 3 });
+		});
+
+		it("should yield a copy of every list change", async () => {
+			const list = new ReactiveList([1]);
+			const values = new Array<ReadonlyArray<number>>();
+
+			const consumeAsync = async (): Promise<void> => {
+				for await (const items of toAsyncIterable(list)) {
+					values.push(items);
+					if (items.length === 3) break;
+				}
+			};
+
+			const consuming = consumeAsync();
+			await Promise.resolve();
+			list.add(2);
+			list.add(3);
+			await consuming;
+
+			expect(values).toEqual([[1], [1, 2], [1, 2, 3]]);
+		});
+	});
+
+	describe("fromAsyncIterable", () => {
+		it("should take every value of the iterable", async () => {
+			async function* generateAsync(): AsyncGenerator<string> {
+				yield "a";
+				yield "a";
+				yield "b";
+			}
+
+			const state = fromAsyncIterable(generateAsync(), "");
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			expect(state.peek()).toBe("");
+
+			await Bun.sleep(0);
+
+			expect(state.peek()).toBe("b");
+			expect(mockCallback.mock.calls).toEqual([["a"], ["a"], ["b"]]);
+		});
+
+		it("should report errors thrown by the iterable", async () => {
+			const error = new Error("Stream closed");
+			async function* generateAsync(): AsyncGenerator<number> {
+				yield 1;
+				throw error;
+			}
+
+			const onError = jest.fn();
+			const state = fromAsyncIterable(generateAsync(), 0, { onError });
+			await Bun.sleep(0);
+
+			expect(state.peek()).toBe(1);
+			expect(state.error.peek()).toBe(error);
+			expect(onError).toHaveBeenCalledWith(error);
+		});
+
+		it("should expose errors thrown by the iterable without an error handler", async () => {
+			const error = new Error("Stream closed");
+			async function* generateAsync(): AsyncGenerator<number> {
+				yield 1;
+				throw error;
+			}
+
+			const state = fromAsyncIterable(generateAsync(), 0);
+			const mockCallback = jest.fn();
+			state.error.onChange(mockCallback);
+			await Bun.sleep(0);
+
+			expect(state.peek()).toBe(1);
+			expect(mockCallback).toHaveBeenCalledWith(error);
+		});
+
+		it("should stop iterating when its scope is disposed", async () => {
+			const finished = jest.fn();
+			async function* generateAsync(): AsyncGenerator<number> {
+				try {
+					for (let index = 1; ; index += 1) {
+						yield index;
+						await Bun.sleep(1);
+					}
+				} finally {
+					finished();
+				}
+			}
+
+			let disposeScope = (): void => {
+				// Replaced once the scope is created.
+			};
+			const state = createScope((dispose) => {
+				disposeScope = dispose;
+				return fromAsyncIterable(generateAsync(), 0);
+			});
+			state.onChange(() => disposeScope());
+			await Bun.sleep(10);
+
+			expect(finished).toHaveBeenCalled();
+			expect(state.peek()).toBe(1);
+		});
+		it("should stop iterating when disposed", async () => {
+			const finished = jest.fn();
+			async function* generateAsync(): AsyncGenerator<number> {
+				try {
+					for (let index = 1; ; index += 1) {
+						yield index;
+						await Bun.sleep(1);
+					}
+				} finally {
+					finished();
+				}
+			}
+
+			const state = fromAsyncIterable(generateAsync(), 0);
+			state.onChange(() => state.dispose());
+			await Bun.sleep(10);
+
+			expect(finished).toHaveBeenCalled();
+			expect(state.peek()).toBe(1);
+		});
+	});
+
+	describe("fromEvent", () => {
+		it("should take the first argument of every event", () => {
+			const emitter = new EventEmitter();
+			const state = fromEvent<string>(emitter, "line");
+			const mockCallback = jest.fn();
+			state.onChange(mockCallback);
+
+			expect(state.peek()).toBeUndefined();
+
+			emitter.emit("line", "hello");
+			emitter.emit("line", "hello");
+
+			expect(state.peek()).toBe("hello");
+			expect(mockCallback).toHaveBeenCalledTimes(2);
+		});
+
+		it("should remove the listener when its scope is disposed", () => {
+			const emitter = new EventEmitter();
+			const state = createScope((dispose) => {
+				const created = fromEvent(emitter, "count", 0);
+				dispose();
+				return created;
+			});
+
+			emitter.emit("count", 1);
+
+			expect(state.peek()).toBe(0);
+			expect(emitter.listenerCount("count")).toBe(0);
+		});
+
+		it("should remove the listener when disposed", () => {
+			const emitter = new EventEmitter();
+			const state = fromEvent(emitter, "count", 0);
+
+			state.dispose();
+			emitter.emit("count", 1);
+
+			expect(state.isDisposed).toBe(true);
+			expect(state.peek()).toBe(0);
+			expect(emitter.listenerCount("count")).toBe(0);
+		});
+
+		it("should accept chokidar watchers", async () => {
+			const watcher = watch([], { persistent: false });
+			const state = fromEvent<string>(watcher, "change");
+
+			watcher.emit("change", "settings.json");
+
+			expect(state.peek()).toBe("settings.json");
+			await watcher.close();
+		});
+	});
+});
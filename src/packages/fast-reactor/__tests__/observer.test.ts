@@ -1,6 +1,7 @@
 import { describe, expect, it, jest } from "bun:test";
 import { Computed } from "../computed";
 import { Observer } from "../observer";
+import { ManualScheduler, setDefaultScheduler, syncScheduler } from "../scheduler";
 import { State } from "../state";
 
 describe("FastReactor.Observer", () => {
@@ -122,4 +123,62 @@ describe("FastReactor.Observer", () => {
 		expect(mockCallback).toHaveBeenCalledWith(6);
 		expect(computedCount).toBe(2);
 	});
+
+	describe("schedulers", () => {
+		it("should coalesce changes until the scheduler runs", () => {
+			const scheduler = new ManualScheduler();
+			const state = new State(1);
+			const mockCallback = jest.fn();
+
+			Observer.watch(state, mockCallback, { scheduler });
+			mockCallback.mockClear();
+
+			state.set(2);
+			state.set(3);
+
+			expect(mockCallback).not.toHaveBeenCalled();
+			expect(scheduler.pendingCount).toBe(1);
+
+			scheduler.flush();
+
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith(3);
+		});
+
+		it("should not deliver changes after disposal", () => {
+			const scheduler = new ManualScheduler();
+			const state = new State(1);
+			const mockCallback = jest.fn();
+
+			const observer = Observer.watch(state, mockCallback, { scheduler });
+			mockCallback.mockClear();
+			state.set(2);
+			observer.dispose();
+			scheduler.flush();
+
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+
+		it("should use the default scheduler", () => {
+			const scheduler = new ManualScheduler();
+			const state = new State(1);
+			const mockCallback = jest.fn();
+
+			setDefaultScheduler(scheduler);
+			try {
+				Observer.watch(state, mockCallback);
+			} finally {
+				setDefaultScheduler(syncScheduler);
+			}
+
+			mockCallback.mockClear();
+			state.set(2);
+
+			expect(mockCallback).not.toHaveBeenCalled();
+
+			scheduler.flush();
+
+			expect(mockCallback).toHaveBeenCalledWith(2);
+		});
+	});
 });
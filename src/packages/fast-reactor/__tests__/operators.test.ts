@@ -0,0 +1,207 @@
+import { describe, expect, it, jest } from "bun:test";
+import { batch } from "../batch";
+import { Computed } from "../computed";
+import { shallowEqual } from "../equality";
+import { combine, distinctUntilChanged, previous, select, switchMap } from "../operators";
+import { ReactiveList } from "../reactive-list";
+import { State } from "../state";
+
+describe("FastReactor.Operators", () => {
+	describe("combine", () => {
+		it("should pass the values in order", () => {
+			const cityState = new State("Seattle");
+			const limitState = new State(10);
+			const summary = combine([cityState, limitState], (city, limit) => `${limit} cities near ${city}`);
+
+			limitState.set(25);
+
+			expect(summary.peek()).toBe("25 cities near Seattle");
+		});
+
+		it("should infer the types of the values", () => {
+			const countState = new State(2);
+			const labelState = new State("items");
+			const label = combine(
+				[countState, labelState],
+				(count, text) => `${count.toFixed(1)} ${text.toUpperCase()}`,
+			);
+
+			expect(label.peek()).toBe("2.0 ITEMS");
+		});
+
+		it("should accept an empty tuple", () => {
+			expect(combine([], () => 42).peek()).toBe(42);
+		});
+	});
+
+	describe("select", () => {
+		it("should only notify when the property changes", () => {
+			const settingsState = new State({ city: "Seattle", limit: 10 });
+			const limit = select(settingsState, "limit");
+			const mockCallback = jest.fn();
+			limit.onChange(mockCallback);
+
+			settingsState.set({ ...settingsState.peek(), city: "Portland" });
+			settingsState.set({ ...settingsState.peek(), limit: 25 });
+
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith(25);
+		});
+	});
+
+	describe("switchMap", () => {
+		it("should follow the chosen reactive", () => {
+			const metricState = new State(1);
+			const imperialState = new State(2);
+			const isMetricState = new State(true);
+			const distance = switchMap(isMetricState, (isMetric) => (isMetric ? metricState : imperialState));
+
+			expect(distance.peek()).toBe(1);
+
+			isMetricState.set(false);
+			imperialState.set(3);
+
+			expect(distance.peek()).toBe(3);
+		});
+
+		it("should stop following the previously chosen reactive", () => {
+			const first = new State(1);
+			const second = new State(2);
+			const useFirst = new State(true);
+			const project = jest.fn((isFirst: boolean) => (isFirst ? first : second));
+			const result = switchMap(useFirst, project);
+			const mockCallback = jest.fn();
+			result.onChange(mockCallback);
+
+			useFirst.set(false);
+			mockCallback.mockClear();
+			first.set(10);
+
+			expect(mockCallback).not.toHaveBeenCalled();
+			expect(project).toHaveBeenCalledTimes(2);
+		});
+
+		it("should not re-run the projection when the chosen reactive changes", () => {
+			const source = new State(0);
+			const project = jest.fn((offset: number) => new Computed(() => source.get() + offset));
+			const result = switchMap(new State(100), project);
+
+			source.set(1);
+
+			expect(result.peek()).toBe(101);
+			expect(project).toHaveBeenCalledTimes(1);
+		});
+
+		it("should dispose what the previous projection created", () => {
+			const source = new State(0);
+			const offsetState = new State(1);
+			const created = new Array<Computed<number>>();
+			const result = switchMap(offsetState, (offset) => {
+				const shifted = new Computed(() => source.get() + offset);
+				created.push(shifted);
+				return shifted;
+			});
+
+			offsetState.set(2);
+
+			expect(result.peek()).toBe(2);
+			expect(created.map((computed) => computed.isDisposed)).toEqual([true, false]);
+		});
+
+		it("should not dispose reactives the projection only chose", () => {
+			const first = new Computed(() => 1);
+			const second = new Computed(() => 2);
+			const useFirst = new State(true);
+			const result = switchMap(useFirst, (isFirst) => (isFirst ? first : second));
+
+			useFirst.set(false);
+
+			expect(result.peek()).toBe(2);
+			expect(first.isDisposed).toBe(false);
+		});
+
+		it("should dispose the projection when the result is disposed outside any scope", () => {
+			const source = new State(0);
+			const offsetState = new State(1);
+			const created = new Array<Computed<number>>();
+			const project = jest.fn((offset: number) => {
+				const shifted = new Computed(() => source.get() + offset);
+				created.push(shifted);
+				return shifted;
+			});
+			const result = switchMap(offsetState, project);
+
+			result.dispose();
+			offsetState.set(2);
+			source.set(5);
+
+			expect(result.isDisposed).toBe(true);
+			expect(result.peek()).toBe(1);
+			expect(project).toHaveBeenCalledTimes(1);
+			expect(created.map((computed) => computed.isDisposed)).toEqual([true]);
+		});
+	});
+
+	describe("previous", () => {
+		it("should hold the value before the latest change", () => {
+			const limitState = new State(10);
+			const previousLimit = previous(limitState);
+
+			expect(previousLimit.peek()).toBeUndefined();
+
+			limitState.set(25);
+			limitState.set(50);
+
+			expect(previousLimit.peek()).toBe(25);
+		});
+
+		it("should count a batch as a single change", () => {
+			const limitState = new State(10);
+			const previousLimit = previous(limitState);
+
+			batch(() => {
+				limitState.set(25);
+				limitState.set(50);
+			});
+
+			expect(previousLimit.peek()).toBe(10);
+		});
+
+		it("should copy arrays handed over by lists", () => {
+			const list = new ReactiveList([1]);
+			const previousItems = previous(list);
+
+			list.add(2);
+
+			expect(previousItems.peek()).toEqual([1]);
+		});
+		it("should stop following the source when disposed", () => {
+			const limitState = new State(10);
+			const previousLimit = previous(limitState);
+
+			limitState.set(25);
+			previousLimit.dispose();
+			limitState.set(50);
+
+			expect(previousLimit.isDisposed).toBe(true);
+			expect(previousLimit.peek()).toBe(10);
+		});
+	});
+
+	describe("distinctUntilChanged", () => {
+		it("should skip values the comparator considers equal", () => {
+			const weightsState = new State({ cost: 1, diversity: 1 });
+			const weights = distinctUntilChanged(weightsState, shallowEqual);
+			const mockCallback = jest.fn();
+			weights.onChange(mockCallback);
+
+			weightsState.set({ cost: 1, diversity: 1 });
+
+			expect(mockCallback).not.toHaveBeenCalled();
+
+			weightsState.set({ cost: 2, diversity: 1 });
+
+			expect(mockCallback).toHaveBeenCalledWith({ cost: 2, diversity: 1 });
+		});
+	});
+});
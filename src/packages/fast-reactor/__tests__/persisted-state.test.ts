@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import FileType from "meta/file-type";
+import { z as zod } from "zod/v4";
+import { Computed } from "../computed";
+import { PersistedState } from "../persisted-state";
+
+interface Settings {
+	readonly limit: number;
+	readonly outputType: string;
+}
+
+const DEFAULT_SETTINGS: Settings = { limit: 10, outputType: "table" };
+const isSettings = zod.object({ limit: zod.number().int().positive(), outputType: zod.string() });
+
+describe("FastReactor.PersistedState", () => {
+	let directory: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), "fast-reactor-"));
+	});
+
+	afterEach(async () => {
+		await rm(directory, { force: true, recursive: true });
+	});
+
+	it("should use the default value when the file does not exist", () => {
+		const state = new PersistedState("settings", DEFAULT_SETTINGS, { directory });
+
+		expect(state.peek()).toEqual(DEFAULT_SETTINGS);
+		expect(state.filePath).toBe(path.join(directory, "settings.json"));
+		state.dispose();
+	});
+
+	for (const fileType of [
+		FileType.Ini,
+		FileType.Json,
+		FileType.Json5,
+		FileType.JsonC,
+		FileType.Toml,
+		FileType.Yaml,
+	]) {
+		it(`should round-trip values as ${fileType}`, async () => {
+			const state = new PersistedState("settings", DEFAULT_SETTINGS, { directory, fileType });
+			state.set({ limit: 25, outputType: "json" });
+			await state.flushAsync();
+			state.dispose();
+
+			const loaded = new PersistedState("settings", DEFAULT_SETTINGS, { directory, fileType });
+
+			expect(loaded.peek()).toEqual({ limit: 25, outputType: "json" });
+			loaded.dispose();
+		});
+	}
+
+	it("should load numbers from INI files that satisfy the schema", async () => {
+		await writeFile(path.join(directory, "settings.ini"), "limit = 25\noutputType = 007\n");
+
+		const state = new PersistedState("settings", DEFAULT_SETTINGS, {
+			directory,
+			fileType: FileType.Ini,
+			schema: isSettings,
+		});
+
+		expect(state.peek()).toEqual({ limit: 25, outputType: "007" });
+		state.dispose();
+	});
+
+	it("should debounce writes", async () => {
+		const state = new PersistedState("settings", DEFAULT_SETTINGS, { debounceMilliseconds: 20, directory });
+
+		state.set({ ...DEFAULT_SETTINGS, limit: 1 });
+		state.set({ ...DEFAULT_SETTINGS, limit: 2 });
+
+		expect(await Bun.file(state.filePath).exists()).toBe(false);
+
+		await Bun.sleep(60);
+
+		expect(JSON.parse(await readFile(state.filePath, "utf8"))).toEqual({ ...DEFAULT_SETTINGS, limit: 2 });
+		state.dispose();
+	});
+
+	it("should write pending changes when disposed", async () => {
+		const state = new PersistedState("settings", DEFAULT_SETTINGS, { debounceMilliseconds: 10_000, directory });
+
+		state.set({ ...DEFAULT_SETTINGS, limit: 3 });
+		state.dispose();
+		await Bun.sleep(20);
+
+		expect(JSON.parse(await readFile(state.filePath, "utf8"))).toEqual({ ...DEFAULT_SETTINGS, limit: 3 });
+	});
+
+	it("should expose write failures through the error reactive", async () => {
+		const onError = jest.fn();
+		const state = new PersistedState("settings", DEFAULT_SETTINGS, { directory, onError });
+		await mkdir(state.filePath);
+
+		state.set({ ...DEFAULT_SETTINGS, limit: 3 });
+		await state.flushAsync();
+
+		expect(state.error.peek()).toBeInstanceOf(Error);
+		expect(onError).toHaveBeenCalledWith(state.error.peek());
+
+		await rm(state.filePath, { recursive: true });
+		await state.flushAsync();
+
+		expect(state.error.peek()).toBeUndefined();
+		expect(JSON.parse(await readFile(state.filePath, "utf8"))).toEqual({ ...DEFAULT_SETTINGS, limit: 3 });
+		state.dispose();
+	});
+
+	it("should validate the file with the schema on load", async () => {
+		await writeFile(path.join(directory, "settings.json"), JSON.stringify({ limit: -1, outputType: "table" }));
+
+		expect(() => new PersistedState("settings", DEFAULT_SETTINGS, { directory, schema: isSettings })).toThrow(
+			"Invalid",
+		);
+	});
+
+	it("should push external edits into dependents without writing them back", async () => {
+		const state = new PersistedState("settings", DEFAULT_SETTINGS, { debounceMilliseconds: 0, directory });
+		const limit = new Computed(() => state.get().limit);
+		expect(limit.peek()).toBe(10);
+
+		const text = JSON.stringify({ limit: 40, outputType: "table" });
+		await writeFile(state.filePath, text);
+		await state.reloadAsync();
+		await Bun.sleep(10);
+
+		expect(limit.peek()).toBe(40);
+		expect(await readFile(state.filePath, "utf8")).toBe(text);
+		state.dispose();
+	});
+
+	it("should load edits made by other processes when watching", async () => {
+		await writeFile(path.join(directory, "settings.json"), JSON.stringify(DEFAULT_SETTINGS));
+		const state = new PersistedState("settings", DEFAULT_SETTINGS, { directory, watch: true });
+		const limit = new Computed(() => state.get().limit);
+		await Bun.sleep(100);
+
+		await writeFile(state.filePath, JSON.stringify({ limit: 50, outputType: "table" }));
+		for (let attempt = 0; attempt < 50 && limit.peek() !== 50; attempt += 1) await Bun.sleep(20);
+
+		expect(limit.peek()).toBe(50);
+		state.dispose();
+	});
+});
@@ -1,5 +1,7 @@
 import { describe, expect, it, jest } from "bun:test";
+import { batch } from "../batch";
 import { Computed } from "../computed";
+import { shallowEqual } from "../equality";
 import { Observer } from "../observer";
 import { ReactiveList } from "../reactive-list";
 
@@ -74,6 +76,19 @@ describe("FastReactor.ReactiveList", () => {
 		expect(list.peek()).toEqual([1, 5, 3]);
 	});
 
+	it("update() should not notify when the item is equal", () => {
+		const list = new ReactiveList([{ id: 1 }], { equals: shallowEqual });
+		const mockCallback = jest.fn();
+		list.onChange(mockCallback);
+
+		expect(list.update(0, { id: 1 })).toBe(true);
+		expect(mockCallback).not.toHaveBeenCalled();
+
+		list.update(0, { id: 2 });
+
+		expect(mockCallback).toHaveBeenCalledWith([{ id: 2 }]);
+	});
+
 	it("update() should return false for invalid index", () => {
 		const list = new ReactiveList([1, 2, 3]);
 		const result = list.update(5, 10);
@@ -127,6 +142,20 @@ describe("FastReactor.ReactiveList", () => {
 		expect(mockCallback).toHaveBeenCalledWith([1, 2, 3]);
 	});
 
+	it("onChange() should hand listeners a copy of the items", () => {
+		const list = new ReactiveList<number>([1, 2]);
+		const values = new Array<Array<number>>();
+
+		list.onChange((value) => values.push(value));
+		list.add(3);
+		list.add(4);
+
+		expect(values).toEqual([
+			[1, 2, 3],
+			[1, 2, 3, 4],
+		]);
+	});
+
 	it("observer should be notified when items change", () => {
 		const list = new ReactiveList<string>(["a", "b"]);
 		const mockCallback = jest.fn();
@@ -390,4 +419,282 @@ describe("FastReactor.ReactiveList", () => {
 			expect(addMock).toHaveBeenCalledWith(4, 2);
 		});
 	});
+
+	describe("keyed reconciliation", () => {
+		interface Entity {
+			readonly health: number;
+			readonly id: number;
+		}
+
+		function createKeyedList(items: Array<Entity>): { events: Array<string>; list: ReactiveList<Entity> } {
+			const list = new ReactiveList(items, { equals: shallowEqual, key: (item) => item.id });
+			const events = new Array<string>();
+			list.onItemAdded((value, index) => events.push(`add ${value.id}@${index}`));
+			list.onItemRemoved((value, index) => events.push(`remove ${value.id}@${index}`));
+			list.onItemMoved((value, fromIndex, toIndex) => events.push(`move ${value.id} ${fromIndex}->${toIndex}`));
+			list.onItemUpdated((value, index) => events.push(`update ${value.id}@${index}`));
+			return { events, list };
+		}
+
+		function replay(initial: Array<Entity>, list: ReactiveList<Entity>, run: () => void): Array<Entity> {
+			const replayed = [...initial];
+			list.onItemAdded((value, index) => replayed.splice(index, 0, value));
+			list.onItemRemoved((_, index) => replayed.splice(index, 1));
+			list.onItemMoved((value, fromIndex, toIndex) => {
+				replayed.splice(fromIndex, 1);
+				replayed.splice(toIndex, 0, value);
+			});
+			list.onItemUpdated((value, index) => {
+				replayed[index] = value;
+			});
+			run();
+			return replayed;
+		}
+
+		it("should not emit events for unchanged items", () => {
+			const { events, list } = createKeyedList([
+				{ id: 1, health: 100 },
+				{ id: 2, health: 50 },
+			]);
+			const mockCallback = jest.fn();
+			list.onChange(mockCallback);
+
+			list.set([
+				{ id: 1, health: 100 },
+				{ id: 2, health: 50 },
+			]);
+
+			expect(events).toEqual([]);
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+
+		it("should emit adds, removes and updates with correct indices", () => {
+			const { events, list } = createKeyedList([
+				{ id: 1, health: 100 },
+				{ id: 2, health: 50 },
+				{ id: 3, health: 75 },
+			]);
+
+			list.set([
+				{ id: 1, health: 100 },
+				{ id: 3, health: 10 },
+				{ id: 4, health: 20 },
+			]);
+
+			expect(events).toEqual(["remove 2@1", "update 3@1", "add 4@2"]);
+			expect(list.peek().map((item) => item.id)).toEqual([1, 3, 4]);
+		});
+
+		it("should emit a single move when an item moves to the front", () => {
+			const { events, list } = createKeyedList([
+				{ id: 1, health: 1 },
+				{ id: 2, health: 2 },
+				{ id: 3, health: 3 },
+			]);
+
+			list.set([
+				{ id: 3, health: 3 },
+				{ id: 1, health: 1 },
+				{ id: 2, health: 2 },
+			]);
+
+			expect(events).toEqual(["move 3 2->0"]);
+		});
+
+		it("should produce events that replay into the new list", () => {
+			const initial: Array<Entity> = [1, 2, 3, 4, 5, 6].map((id) => ({ id, health: id }));
+			const next: Array<Entity> = [6, 9, 2, 4, 1, 7].map((id) => ({ id, health: id === 4 ? 0 : id }));
+			const list = new ReactiveList(initial, { equals: shallowEqual, key: (item) => item.id });
+
+			const replayed = replay(initial, list, () => list.set(next));
+
+			expect(replayed).toEqual(next);
+			expect(list.peek()).toEqual(next);
+		});
+
+		it("should emit onItemUpdated from update()", () => {
+			const { events, list } = createKeyedList([{ id: 1, health: 100 }]);
+
+			list.update(0, { id: 1, health: 50 });
+
+			expect(events).toEqual(["update 1@0"]);
+		});
+
+		it("should throw on duplicate keys without changing the list", () => {
+			const { list } = createKeyedList([{ id: 1, health: 100 }]);
+
+			expect(() =>
+				list.set([
+					{ id: 2, health: 1 },
+					{ id: 2, health: 2 },
+				]),
+			).toThrow("Duplicate key");
+			expect(list.peek()).toEqual([{ id: 1, health: 100 }]);
+		});
+
+		it("should fall back to removing and adding every item without a key", () => {
+			const list = new ReactiveList([1, 2]);
+			const events = new Array<string>();
+			list.onItemAdded((value) => events.push(`add ${value}`));
+			list.onItemRemoved((value) => events.push(`remove ${value}`));
+
+			list.set([1, 2]);
+
+			expect(events).toEqual(["remove 2", "remove 1", "add 1", "add 2"]);
+		});
+	});
+
+	describe("derived lists", () => {
+		interface City {
+			readonly id: number;
+			readonly region: string;
+			readonly score: number;
+		}
+
+		const cities: Array<City> = [
+			{ id: 1, region: "west", score: 70 },
+			{ id: 2, region: "east", score: 40 },
+			{ id: 3, region: "west", score: 90 },
+			{ id: 4, region: "south", score: 60 },
+		];
+
+		function mutate(list: ReactiveList<City>): void {
+			list.add({ id: 5, region: "east", score: 80 });
+			list.insert(0, { id: 6, region: "north", score: 10 });
+			list.update(2, { id: 2, region: "west", score: 95 });
+			list.removeAt(3);
+			list.set([
+				{ id: 5, region: "east", score: 80 },
+				{ id: 1, region: "west", score: 50 },
+				{ id: 6, region: "north", score: 10 },
+				{ id: 4, region: "south", score: 60 },
+			]);
+			list.shift();
+			list.pop();
+		}
+
+		it("should stay equal to recomputing from the source", () => {
+			const list = new ReactiveList(cities, { key: (city) => city.id });
+			const mapped = list.mapItems((city) => city.id);
+			const filtered = list.filterItems((city) => city.score >= 60);
+			const sorted = list.sortBy((city) => city.score);
+			const sliced = list.slice(1, 3);
+
+			mutate(list);
+
+			const items = list.peek();
+			expect(mapped.peek()).toEqual(items.map((city) => city.id));
+			expect(filtered.peek()).toEqual(items.filter((city) => city.score >= 60));
+			expect(sorted.peek()).toEqual(items.toSorted((a, b) => a.score - b.score));
+			expect(sliced.peek()).toEqual(items.slice(1, 3));
+		});
+
+		it("should group items by key and drop empty groups", () => {
+			const list = new ReactiveList(cities, { key: (city) => city.id });
+			const groups = list.groupBy((city) => city.region);
+
+			mutate(list);
+
+			const expected = Map.groupBy(list.peek(), (city) => city.region);
+			expect([...groups.peek().keys()].toSorted()).toEqual([...expected.keys()].toSorted());
+			for (const [region, group] of groups.peek()) expect(group.peek()).toEqual(expected.get(region)!);
+		});
+
+		it("should only run the selector for changed items", () => {
+			const list = new ReactiveList([1, 2, 3]);
+			const selector = jest.fn((value: number) => value * 2);
+			const doubled = list.mapItems(selector);
+			selector.mockClear();
+
+			list.add(4);
+			list.update(0, 5);
+
+			expect(doubled.peek()).toEqual([10, 4, 6, 8]);
+			expect(selector).toHaveBeenCalledTimes(2);
+		});
+
+		it("should emit item events and notify once per source change", () => {
+			const list = new ReactiveList([3, 1]);
+			const sorted = list.sortBy((value) => value);
+			const events = new Array<string>();
+			sorted.onItemAdded((value, index) => events.push(`add ${value}@${index}`));
+			sorted.onItemRemoved((value, index) => events.push(`remove ${value}@${index}`));
+			const mockCallback = jest.fn();
+			sorted.onChange(mockCallback);
+
+			batch(() => {
+				list.add(2);
+				list.remove(3);
+			});
+
+			expect(events).toEqual(["add 2@1", "remove 3@2"]);
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith([1, 2]);
+		});
+
+		it("should remove the last item when the source pops", () => {
+			const list = new ReactiveList([3, 1, 2]);
+			const mapped = list.mapItems((value) => value * 10);
+			const sorted = list.sortBy((value) => value);
+
+			expect(list.pop()).toBe(2);
+
+			expect(list.peek()).toEqual([3, 1]);
+			expect(list.size()).toBe(2);
+			expect(mapped.peek()).toEqual([30, 10]);
+			expect(sorted.peek()).toEqual([1, 3]);
+		});
+
+		it("should find items that are not equal to themselves in sorted lists", () => {
+			const list = new ReactiveList([1, Number.NaN, 2]);
+			const sorted = list.sortBy(() => 0);
+
+			list.removeAt(1);
+
+			expect(sorted.peek()).toEqual([1, 2]);
+		});
+
+		it("should invalidate computeds reading the derived list", () => {
+			const list = new ReactiveList([1, 2, 3]);
+			const evens = list.filterItems((value) => value % 2 === 0);
+			const count = new Computed(() => evens.size());
+			expect(count.peek()).toBe(1);
+
+			list.add(4);
+
+			expect(count.peek()).toBe(2);
+		});
+
+		it("should be read-only", () => {
+			const list = new ReactiveList([1]);
+			const mapped = list.mapItems((value) => value + 1);
+
+			expect(() => mapped.add(3)).toThrow("read-only");
+			expect(() => {
+				mapped.value = [];
+			}).toThrow("read-only");
+		});
+
+		it("should stop following the source once disposed", () => {
+			const list = new ReactiveList([1]);
+			const mapped = list.mapItems((value) => value + 1);
+
+			mapped.dispose();
+			list.add(2);
+
+			expect(mapped.isDisposed).toBe(true);
+			expect(mapped.peek()).toEqual([2]);
+		});
+
+		it("should refuse to derive from a list with pending batch writes", () => {
+			const list = new ReactiveList([1]);
+
+			expect(() =>
+				batch(() => {
+					list.add(2);
+					list.mapItems((value) => value);
+				}),
+			).toThrow("pending");
+		});
+	});
 });
@@ -0,0 +1,145 @@
+import { describe, expect, it, jest } from "bun:test";
+import { batch } from "../batch";
+import { Computed } from "../computed";
+import { Observer } from "../observer";
+import { ReactiveMap } from "../reactive-map";
+
+const SEATTLE = "Seattle";
+const PORTLAND = "Portland";
+
+describe("FastReactor.ReactiveMap", () => {
+	it("should initialize with the provided entries", () => {
+		const map = new ReactiveMap([[SEATTLE, 1]]);
+
+		expect(map.peek()).toEqual(new Map([[SEATTLE, 1]]));
+		expect(map.get(SEATTLE)).toBe(1);
+		expect(map.has(PORTLAND)).toBe(false);
+		expect(map.size).toBe(1);
+	});
+
+	it("should only invalidate computeds reading the key that changed", () => {
+		const map = new ReactiveMap<string, number>([
+			[SEATTLE, 1],
+			[PORTLAND, 2],
+		]);
+		const computeFunction = jest.fn(() => map.get(SEATTLE) ?? 0);
+		const seattle = new Computed(computeFunction);
+
+		map.set(PORTLAND, 3);
+
+		expect(seattle.peek()).toBe(1);
+		expect(computeFunction).toHaveBeenCalledTimes(1);
+
+		map.set(SEATTLE, 5);
+
+		expect(seattle.peek()).toBe(5);
+		expect(computeFunction).toHaveBeenCalledTimes(2);
+	});
+
+	it("should invalidate has() when a missing key is added and removed", () => {
+		const map = new ReactiveMap<string, number>();
+		const hasSeattle = new Computed(() => map.has(SEATTLE));
+
+		map.set(SEATTLE, 1);
+
+		expect(hasSeattle.peek()).toBe(true);
+
+		map.delete(SEATTLE);
+
+		expect(hasSeattle.peek()).toBe(false);
+	});
+
+	it("should invalidate whole-map readers on any change", () => {
+		const map = new ReactiveMap<string, number>();
+		const total = new Computed(() => [...map.get().values()].reduce((sum, value) => sum + value, 0));
+
+		map.set(SEATTLE, 1);
+		map.set(PORTLAND, 2);
+
+		expect(total.peek()).toBe(3);
+
+		map.clear();
+
+		expect(total.peek()).toBe(0);
+	});
+
+	it("should emit key events", () => {
+		const map = new ReactiveMap<string, number>([[SEATTLE, 1]]);
+		const events = new Array<string>();
+		map.onKeyAdded((key, value) => events.push(`add ${key}=${value}`));
+		map.onKeyChanged((key, value, previousValue) => events.push(`change ${key} ${previousValue}->${value}`));
+		map.onKeyRemoved((key, value) => events.push(`remove ${key}=${value}`));
+
+		map.set(PORTLAND, 2);
+		map.set(SEATTLE, 3);
+		map.set(SEATTLE, 3);
+		map.delete(PORTLAND);
+
+		expect(events).toEqual(["add Portland=2", "change Seattle 1->3", "remove Portland=2"]);
+	});
+
+	it("set() with a map should only emit events for differences", () => {
+		const map = new ReactiveMap<string, number>([
+			[SEATTLE, 1],
+			[PORTLAND, 2],
+		]);
+		const events = new Array<string>();
+		map.onKeyAdded((key) => events.push(`add ${key}`));
+		map.onKeyChanged((key) => events.push(`change ${key}`));
+		map.onKeyRemoved((key) => events.push(`remove ${key}`));
+
+		map.set(
+			new Map([
+				[SEATTLE, 1],
+				["Boise", 3],
+			]),
+		);
+
+		expect(events).toEqual(["remove Portland", "add Boise"]);
+	});
+
+	it("should provide derived keys, values and entries", () => {
+		const map = new ReactiveMap<string, number>([[SEATTLE, 1]]);
+		const keys = map.keys();
+		const values = map.values();
+		const entries = map.entries();
+
+		map.set(PORTLAND, 2);
+
+		expect(keys.peek()).toEqual([SEATTLE, PORTLAND]);
+		expect(values.peek()).toEqual([1, 2]);
+		expect(entries.peek()).toEqual([
+			[SEATTLE, 1],
+			[PORTLAND, 2],
+		]);
+	});
+
+	it("should notify observers once per batch and roll back on error", () => {
+		const map = new ReactiveMap<string, number>();
+		const mockCallback = jest.fn();
+		Observer.watch(map, mockCallback);
+		mockCallback.mockClear();
+
+		batch(() => {
+			map.set(SEATTLE, 1);
+			map.set(PORTLAND, 2);
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+
+		expect(() =>
+			batch(() => {
+				map.delete(SEATTLE);
+				throw new Error("nope");
+			}),
+		).toThrow("nope");
+
+		expect(map.peek()).toEqual(
+			new Map([
+				[SEATTLE, 1],
+				[PORTLAND, 2],
+			]),
+		);
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it, jest } from "bun:test";
+import { batch } from "../batch";
+import { Computed } from "../computed";
+import { inspect } from "../dependency-tracker";
+import { ReactiveSet } from "../reactive-set";
+
+describe("FastReactor.ReactiveSet", () => {
+	it("should initialize with the provided values", () => {
+		const set = new ReactiveSet(["a", "b"]);
+
+		expect(set.peek()).toEqual(new Set(["a", "b"]));
+		expect(set.size).toBe(2);
+	});
+
+	it("add() and delete() should report whether the set changed", () => {
+		const set = new ReactiveSet<string>();
+
+		expect(set.add("a")).toBe(true);
+		expect(set.add("a")).toBe(false);
+		expect(set.delete("a")).toBe(true);
+		expect(set.delete("a")).toBe(false);
+	});
+
+	it("should only invalidate computeds checking the value that changed", () => {
+		const set = new ReactiveSet<string>();
+		const computeFunction = jest.fn(() => set.has("a"));
+		const hasA = new Computed(computeFunction);
+
+		set.add("b");
+
+		expect(hasA.peek()).toBe(false);
+		expect(computeFunction).toHaveBeenCalledTimes(1);
+
+		set.add("a");
+
+		expect(hasA.peek()).toBe(true);
+		expect(computeFunction).toHaveBeenCalledTimes(2);
+	});
+
+	it("should emit value events", () => {
+		const set = new ReactiveSet(["a"]);
+		const events = new Array<string>();
+		set.onKeyAdded((value) => events.push(`add ${value}`));
+		set.onKeyRemoved((value) => events.push(`remove ${value}`));
+
+		set.set(new Set(["b", "a"]));
+		set.clear();
+
+		expect(events).toEqual(["add b", "remove b", "remove a"]);
+	});
+
+	it("should provide derived values", () => {
+		const set = new ReactiveSet<number>([1]);
+		const values = set.values();
+		const entries = set.entries();
+
+		set.add(2);
+
+		expect(values.peek()).toEqual([1, 2]);
+		expect(set.keys().peek()).toEqual([1, 2]);
+		expect(entries.peek()).toEqual([
+			[1, 1],
+			[2, 2],
+		]);
+	});
+
+	it("should defer notifications in a batch", () => {
+		const set = new ReactiveSet<number>();
+		const mockCallback = jest.fn();
+		set.onChange(mockCallback);
+
+		batch(() => {
+			set.add(1);
+			set.add(2);
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(new Set([1, 2]));
+	});
+
+	it("should describe itself to the dependency tracker", () => {
+		const set = new ReactiveSet(["a"], { debugName: "tags" });
+		const count = new Computed(() => set.size);
+		count.peek();
+
+		const before = Date.now();
+		set.add("b");
+
+		const [, setNode] = inspect(count).nodes;
+		expect(setNode?.kind).toBe("ReactiveSet");
+		expect(setNode?.name).toBe("tags");
+		expect(setNode?.lastChangedAt).toBeGreaterThanOrEqual(before);
+	});
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it, jest } from "bun:test";
+import { Computed } from "../computed";
+import { hydrate } from "../hydrate";
+import { Observer } from "../observer";
+import { Resource } from "../resource";
+import { State } from "../state";
+
+interface Deferred<T> {
+	readonly promise: Promise<T>;
+	readonly reject: (reason: unknown) => void;
+	readonly resolve: (value: T) => void;
+}
+
+function createDeferred<T>(): Deferred<T> {
+	const { promise, reject, resolve } = Promise.withResolvers<T>();
+	return { promise, reject, resolve };
+}
+
+describe("FastReactor.Resource", () => {
+	it("should resolve to the fetched value", async () => {
+		const resource = new Resource(async () => 42);
+
+		expect(resource.peek()).toBeUndefined();
+		expect(resource.loading.peek()).toBe(true);
+
+		await resource.promise;
+
+		expect(resource.peek()).toBe(42);
+		expect(resource.loading.peek()).toBe(false);
+		expect(resource.error.peek()).toBeUndefined();
+	});
+
+	it("should hold the initial value until the first run resolves", async () => {
+		const resource = new Resource(async () => "fetched", "initial");
+
+		expect(resource.peek()).toBe("initial");
+
+		await resource.promise;
+
+		expect(resource.peek()).toBe("fetched");
+	});
+
+	it("should expose errors as a reactive", async () => {
+		const failure = new Error("failed");
+		const resource = new Resource(async (): Promise<number> => {
+			throw failure;
+		});
+
+		await resource.promise;
+
+		expect(resource.error.peek()).toBe(failure);
+		expect(resource.loading.peek()).toBe(false);
+		expect(resource.peek()).toBeUndefined();
+	});
+
+	it("should not let callers write the loading and error reactives", async () => {
+		const resource = new Resource(async (): Promise<number> => 42);
+
+		expect("set" in resource.loading).toBe(false);
+		expect("set" in resource.error).toBe(false);
+
+		await resource.promise;
+
+		expect(resource.loading.peek()).toBe(false);
+	});
+
+	it("should refetch when a dependency read before the first await changes", async () => {
+		const idState = new State(1);
+		const fetcher = jest.fn(async () => {
+			const id = idState.get();
+			await Promise.resolve();
+			return id * 10;
+		});
+		const resource = new Resource(fetcher);
+		await resource.promise;
+
+		idState.set(2);
+		await resource.promise;
+
+		expect(fetcher).toHaveBeenCalledTimes(2);
+		expect(resource.peek()).toBe(20);
+	});
+
+	it("should not track reads made after the first await", async () => {
+		const before = new State(1);
+		const after = new State(1);
+		const fetcher = jest.fn(async () => {
+			const value = before.get();
+			await Promise.resolve();
+			return value + after.get();
+		});
+		const resource = new Resource(fetcher);
+		await resource.promise;
+
+		after.set(2);
+
+		expect(fetcher).toHaveBeenCalledTimes(1);
+	});
+
+	it("should abort and discard stale in-flight runs", async () => {
+		const idState = new State(1);
+		const deferreds = new Array<Deferred<number>>();
+		const signals = new Array<AbortSignal>();
+		const resource = new Resource((signal) => {
+			idState.get();
+			signals.push(signal);
+			const deferred = createDeferred<number>();
+			deferreds.push(deferred);
+			return deferred.promise;
+		});
+
+		idState.set(2);
+
+		expect(signals).toHaveLength(2);
+		expect(signals[0]?.aborted).toBe(true);
+		expect(signals[1]?.aborted).toBe(false);
+
+		deferreds[1]?.resolve(2);
+		deferreds[0]?.resolve(1);
+		await resource.promise;
+		await deferreds[0]?.promise;
+
+		expect(resource.peek()).toBe(2);
+		expect(resource.loading.peek()).toBe(false);
+	});
+
+	it("should integrate with Observer.watch and computeds", async () => {
+		const resource = new Resource(async () => 5);
+		const doubled = new Computed(() => (resource.get() ?? 0) * 2);
+		const mockCallback = jest.fn();
+		Observer.watch(resource, mockCallback);
+
+		await resource.promise;
+
+		expect(mockCallback).toHaveBeenLastCalledWith(5);
+		expect(doubled.peek()).toBe(10);
+	});
+
+	it("should integrate with hydrate", async () => {
+		const resource = new Resource(async () => "Jane");
+		const object = { name: undefined as string | undefined };
+		hydrate(object, { name: resource });
+
+		await resource.promise;
+
+		expect(object.name).toBe("Jane");
+	});
+
+	it("dispose() should abort the run in flight and stop refetching", () => {
+		const idState = new State(1);
+		let lastSignal: AbortSignal | undefined;
+		const fetcher = jest.fn((signal: AbortSignal) => {
+			idState.get();
+			lastSignal = signal;
+			return createDeferred<number>().promise;
+		});
+		const resource = new Resource(fetcher);
+
+		resource.dispose();
+		idState.set(2);
+
+		expect(lastSignal?.aborted).toBe(true);
+		expect(fetcher).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it, jest } from "bun:test";
+import { immediateScheduler, ManualScheduler, microtaskScheduler, syncScheduler } from "../scheduler";
+
+describe("FastReactor.Scheduler", () => {
+	it("should run tasks immediately with the sync scheduler", () => {
+		const task = jest.fn();
+
+		syncScheduler.schedule(task);
+
+		expect(task).toHaveBeenCalledTimes(1);
+	});
+
+	it("should run tasks after the current code with the microtask scheduler", async () => {
+		const task = jest.fn();
+
+		microtaskScheduler.schedule(task);
+
+		expect(task).not.toHaveBeenCalled();
+
+		await Promise.resolve();
+
+		expect(task).toHaveBeenCalledTimes(1);
+	});
+
+	it("should run tasks on the next turn with the immediate scheduler", async () => {
+		const { promise, resolve } = Promise.withResolvers<void>();
+		const task = jest.fn(() => resolve());
+
+		immediateScheduler.schedule(task);
+
+		expect(task).not.toHaveBeenCalled();
+
+		await promise;
+
+		expect(task).toHaveBeenCalledTimes(1);
+	});
+
+	it("should only run tasks when flushed with the manual scheduler", () => {
+		const scheduler = new ManualScheduler();
+		const order = new Array<string>();
+
+		scheduler.schedule(() => {
+			order.push("first");
+			scheduler.schedule(() => order.push("nested"));
+		});
+		scheduler.schedule(() => order.push("second"));
+
+		expect(order).toEqual([]);
+		expect(scheduler.pendingCount).toBe(2);
+
+		scheduler.flush();
+
+		expect(order).toEqual(["first", "second", "nested"]);
+		expect(scheduler.pendingCount).toBe(0);
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it, jest } from "bun:test";
+import { Computed } from "../computed";
+import { Effect } from "../effect";
+import { hydrate } from "../hydrate";
+import { Observer } from "../observer";
+import { createScope, hasScope, onDispose } from "../scope";
+import { State } from "../state";
+
+describe("FastReactor.createScope", () => {
+	it("should return the result of the callback", () => {
+		expect(createScope(() => 42)).toBe(42);
+	});
+
+	it("should report whether a scope is active", () => {
+		expect(hasScope()).toBe(false);
+
+		createScope(() => {
+			expect(hasScope()).toBe(true);
+		});
+
+		expect(hasScope()).toBe(false);
+	});
+
+	it("should dispose computeds, observers and effects created inside it", () => {
+		const state = new State(1);
+		const selector = jest.fn((value: number) => value * 2);
+		const observerCallback = jest.fn();
+		const effectCallback = jest.fn(() => state.get());
+
+		const dispose = createScope((dispose) => {
+			const doubled = state.map(selector);
+			Observer.watch(doubled, observerCallback);
+			const _effect = new Effect(effectCallback);
+			return dispose;
+		});
+		selector.mockClear();
+		observerCallback.mockClear();
+		effectCallback.mockClear();
+
+		dispose();
+		state.set(2);
+
+		expect(selector).not.toHaveBeenCalled();
+		expect(observerCallback).not.toHaveBeenCalled();
+		expect(effectCallback).not.toHaveBeenCalled();
+	});
+
+	it("should remove hydrate bindings created inside it", () => {
+		const state = new State("John");
+		const object = { name: "" };
+
+		const dispose = createScope((dispose) => {
+			hydrate(object, { name: state });
+			return dispose;
+		});
+
+		dispose();
+		state.set("Jane");
+
+		expect(object.name).toBe("John");
+	});
+
+	it("should leave values created outside it alone", () => {
+		const state = new State(1);
+		const outside = new Computed(() => state.get() * 2);
+		outside.onChange(() => undefined);
+
+		createScope((dispose) => dispose());
+		state.set(2);
+
+		expect(outside.isDisposed).toBe(false);
+		expect(outside.peek()).toBe(4);
+	});
+
+	it("should dispose nested scopes with their parent", () => {
+		const cleanup = jest.fn();
+
+		const dispose = createScope((dispose) => {
+			createScope(() => onDispose(cleanup));
+			return dispose;
+		});
+
+		dispose();
+
+		expect(cleanup).toHaveBeenCalledTimes(1);
+	});
+
+	it("should run cleanups in reverse order and only once", () => {
+		const order = new Array<number>();
+
+		const dispose = createScope((dispose) => {
+			onDispose(() => order.push(1));
+			onDispose(() => order.push(2));
+			return dispose;
+		});
+
+		dispose();
+		dispose();
+
+		expect(order).toEqual([2, 1]);
+	});
+
+	it("should dispose everything if the callback throws", () => {
+		const cleanup = jest.fn();
+
+		expect(() =>
+			createScope(() => {
+				onDispose(cleanup);
+				throw new Error("nope");
+			}),
+		).toThrow("nope");
+		expect(cleanup).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, jest } from "bun:test";
+import Option from "classes/option";
+import { z as zod } from "zod/v4";
+import { Computed } from "../computed";
+import { ReactiveList } from "../reactive-list";
+import { type Codec, restore, snapshot } from "../serialization";
+import { State } from "../state";
+import { createStore } from "../store";
+
+describe("FastReactor.snapshot", () => {
+	it("should round-trip State, ReactiveList and store values", () => {
+		const limit = new State(10);
+		const cities = new ReactiveList(["Seattle", "Portland"]);
+		const settings = createStore({ outputType: "table", weights: { cost: 1 } });
+		const json = snapshot({ cities, limit, settings });
+
+		limit.set(0);
+		cities.clear();
+		settings[1](["weights", "cost"], 5);
+		restore({ cities, limit, settings }, json);
+
+		expect(limit.peek()).toBe(10);
+		expect(cities.peek()).toEqual(["Seattle", "Portland"]);
+		expect(settings[0].weights.cost).toBe(1);
+	});
+
+	it("should encode Map, Set, Date and Option values", () => {
+		const value = new State({
+			createdAt: new Date("2025-01-02T03:04:05.000Z"),
+			missing: Option.none<string>(),
+			nested: new Map([["tags", new Set(["coastal"])]]),
+			selected: Option.some(3),
+		});
+		const json = snapshot({ value });
+		value.set({ createdAt: new Date(0), missing: Option.some("x"), nested: new Map(), selected: Option.none() });
+
+		restore({ value }, json);
+
+		const restored = value.peek();
+		expect(restored.createdAt).toEqual(new Date("2025-01-02T03:04:05.000Z"));
+		expect(restored.missing.isNone).toBe(true);
+		expect(restored.nested.get("tags")).toEqual(new Set(["coastal"]));
+		expect(restored.selected.unwrap()).toBe(3);
+	});
+
+	it("should use custom codecs", () => {
+		class Point {
+			public constructor(
+				public readonly x: number,
+				public readonly y: number,
+			) {}
+		}
+
+		const pointCodec: Codec<Point> = {
+			decode: (data) => new Point(...(data as [number, number])),
+			encode: (value) => [value.x, value.y],
+			is: (value) => value instanceof Point,
+			name: "Point",
+		};
+		const point = new State(new Point(1, 2));
+
+		expect(() => snapshot({ point })).toThrow("register a codec");
+
+		const json = snapshot({ point }, { codecs: [pointCodec] });
+		point.set(new Point(0, 0));
+		restore({ point }, json, { codecs: [pointCodec] });
+
+		expect(point.peek()).toEqual(new Point(1, 2));
+	});
+
+	it("should restore in a single batch", () => {
+		const first = new State(1);
+		const second = new State(2);
+		const computeFunction = jest.fn(() => first.get() + second.get());
+		const sum = new Computed(computeFunction);
+		const mockCallback = jest.fn();
+		sum.onChange(mockCallback);
+
+		restore({ first, second }, JSON.stringify({ values: { first: 10, second: 20 }, version: 1 }));
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(30);
+	});
+
+	it("should validate values before writing anything", () => {
+		const limit = new State(10);
+		const name = new State("Seattle");
+		const json = JSON.stringify({ values: { limit: -1, name: "Portland" }, version: 1 });
+
+		expect(() => restore({ limit, name }, json, { schemas: { limit: zod.number().int().positive() } })).toThrow(
+			'Invalid snapshot value "limit"',
+		);
+		expect(limit.peek()).toBe(10);
+		expect(name.peek()).toBe("Seattle");
+	});
+
+	it("should reject malformed snapshots", () => {
+		const limit = new State(10);
+
+		expect(() => restore({ limit }, JSON.stringify({ values: {}, version: 2 }))).toThrow();
+		expect(limit.peek()).toBe(10);
+	});
+});
@@ -1,4 +1,6 @@
 import { describe, expect, it, jest } from "bun:test";
+import { Computed } from "../computed";
+import { shallowEqual } from "../equality";
 import { State } from "../state";
 
 describe("FastReactor.State", () => {
@@ -28,6 +30,30 @@ describe("FastReactor.State", () => {
 		expect(mockCallback).not.toHaveBeenCalled();
 	});
 
+	it("should use a custom equality comparator", () => {
+		const state = new State({ name: "John" }, { equals: shallowEqual });
+		const mockCallback = jest.fn();
+
+		state.onChange(mockCallback);
+		state.set({ name: "John" });
+
+		expect(mockCallback).not.toHaveBeenCalled();
+
+		state.set({ name: "Jane" });
+
+		expect(mockCallback).toHaveBeenCalledWith({ name: "Jane" });
+	});
+
+	it("should not invalidate dependents when the comparator reports no change", () => {
+		const state = new State({ limit: 10, percentage: 30 }, { equals: shallowEqual });
+		const computeFunction = jest.fn(() => state.get().percentage / 100);
+		const _computed = new Computed(computeFunction);
+
+		state.set({ limit: 10, percentage: 30 });
+
+		expect(computeFunction).toHaveBeenCalledTimes(1);
+	});
+
 	it("peek() should return the current value without tracking dependencies", () => {
 		const state = new State(42);
 
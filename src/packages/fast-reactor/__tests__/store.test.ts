@@ -0,0 +1,131 @@
+import { describe, expect, it, jest } from "bun:test";
+import { batch } from "../batch";
+import { Computed } from "../computed";
+import { hydrate } from "../hydrate";
+import { Observer } from "../observer";
+import { State } from "../state";
+import { createStore, unwrap } from "../store";
+
+interface Settings {
+	readonly limit: number;
+	readonly tags: ReadonlyArray<string>;
+	readonly weights: { readonly cost: number; readonly safety: number };
+}
+
+function createSettings(): Settings {
+	return { limit: 10, tags: ["coastal"], weights: { cost: 1, safety: 1 } };
+}
+
+describe("FastReactor.createStore", () => {
+	it("should read nested properties", () => {
+		const [settings] = createStore(createSettings());
+
+		expect(settings.limit).toBe(10);
+		expect(settings.weights.cost).toBe(1);
+		expect(settings.tags[0]).toBe("coastal");
+		expect(settings.tags.length).toBe(1);
+		expect(Object.keys(settings)).toEqual(["limit", "tags", "weights"]);
+	});
+
+	it("should only recompute computeds reading the path that changed", () => {
+		const [settings, setSettings] = createStore(createSettings());
+		const limitFunction = jest.fn(() => settings.limit);
+		const costFunction = jest.fn(() => settings.weights.cost);
+		const limit = new Computed(limitFunction);
+		const cost = new Computed(costFunction);
+		expect(limit.peek()).toBe(10);
+		expect(cost.peek()).toBe(1);
+
+		setSettings(["weights", "safety"], 2);
+
+		expect(limit.peek()).toBe(10);
+		expect(cost.peek()).toBe(1);
+		expect(limitFunction).toHaveBeenCalledTimes(1);
+		expect(costFunction).toHaveBeenCalledTimes(1);
+
+		setSettings(["weights", "cost"], (previous) => previous + 1);
+
+		expect(cost.peek()).toBe(2);
+		expect(costFunction).toHaveBeenCalledTimes(2);
+		expect(limitFunction).toHaveBeenCalledTimes(1);
+	});
+
+	it("should recompute when a nested object is replaced", () => {
+		const [settings, setSettings] = createStore(createSettings());
+		const cost = new Computed(() => settings.weights.cost);
+		expect(cost.peek()).toBe(1);
+
+		setSettings(["weights"], { cost: 3, safety: 1 });
+
+		expect(cost.peek()).toBe(3);
+	});
+
+	it("should update immutably and share unchanged objects", () => {
+		const initial = createSettings();
+		const [settings, setSettings] = createStore(initial);
+
+		setSettings(["weights", "cost"], 5);
+
+		const updated = unwrap(settings);
+		expect(initial.weights.cost).toBe(1);
+		expect(updated).not.toBe(initial);
+		expect(updated.weights.cost).toBe(5);
+		expect(updated.tags).toBe(initial.tags);
+	});
+
+	it("should track the keys of an object", () => {
+		const [store, setStore] = createStore<{ readonly cities: Record<string, number> }>({ cities: {} });
+		const names = new Computed(() => Object.keys(store.cities));
+		expect(names.peek()).toEqual([]);
+
+		setStore(["cities", "Seattle"], 1);
+
+		expect(names.peek()).toEqual(["Seattle"]);
+	});
+
+	it("should throw when mutated directly", () => {
+		const [settings] = createStore(createSettings());
+
+		expect(() => {
+			(settings as { limit: number }).limit = 5;
+		}).toThrow("Stores cannot be mutated directly");
+	});
+
+	it("should notify once per batch and roll back on error", () => {
+		const [settings, setSettings] = createStore(createSettings());
+		const mockCallback = jest.fn();
+		Observer.watch(new Computed(() => settings.limit + settings.weights.cost), mockCallback);
+		mockCallback.mockClear();
+
+		batch(() => {
+			setSettings(["limit"], 20);
+			setSettings(["weights", "cost"], 2);
+		});
+
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+		expect(mockCallback).toHaveBeenCalledWith(22);
+
+		expect(() =>
+			batch(() => {
+				setSettings(["limit"], 30);
+				throw new Error("nope");
+			}),
+		).toThrow("nope");
+
+		expect(settings.limit).toBe(20);
+		expect(mockCallback).toHaveBeenCalledTimes(1);
+	});
+
+	it("should interoperate with State and hydrate", () => {
+		const [settings, setSettings] = createStore(createSettings());
+		const limitState = new State(10);
+		const _observer = Observer.watch(limitState, (limit) => setSettings(["limit"], limit));
+		const view = { limit: 0 };
+		const _dispose = hydrate(view, { limit: new Computed(() => settings.limit) });
+
+		limitState.set(25);
+
+		expect(settings.limit).toBe(25);
+		expect(view.limit).toBe(25);
+	});
+});
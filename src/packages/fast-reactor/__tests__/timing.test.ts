@@ -0,0 +1,147 @@
+import { describe, expect, it, jest } from "bun:test";
+import { Computed } from "../computed";
+import { ReactiveList } from "../reactive-list";
+import { createScope } from "../scope";
+import { State } from "../state";
+import { debounced, delayed, ManualClock, throttled } from "../timing";
+
+describe("FastReactor.Timing", () => {
+	describe("debounced", () => {
+		it("should take the value once the source stops changing", () => {
+			const clock = new ManualClock();
+			const state = new State("a");
+			const value = debounced(state, 100, { clock });
+			const mockCallback = jest.fn();
+			value.onChange(mockCallback);
+
+			state.set("b");
+			clock.advance(60);
+			state.set("c");
+			clock.advance(60);
+
+			expect(value.peek()).toBe("a");
+
+			clock.advance(40);
+
+			expect(value.peek()).toBe("c");
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith("c");
+		});
+
+		it("should be tracked by computeds", () => {
+			const clock = new ManualClock();
+			const state = new State(1);
+			const debouncedState = debounced(state, 100, { clock });
+			const doubled = new Computed(() => debouncedState.get() * 2);
+
+			state.set(2);
+			clock.advance(100);
+
+			expect(doubled.peek()).toBe(4);
+		});
+
+		it("should follow lists", () => {
+			const clock = new ManualClock();
+			const list = new ReactiveList([1]);
+			const value = debounced(list, 100, { clock });
+			const mockCallback = jest.fn();
+			value.onChange(mockCallback);
+
+			list.add(2);
+			clock.advance(100);
+
+			expect(mockCallback).toHaveBeenCalledWith([1, 2]);
+		});
+
+		it("should keep the list contents it was given", () => {
+			const clock = new ManualClock();
+			const list = new ReactiveList([1]);
+			const value = debounced(list, 100, { clock });
+
+			list.add(2);
+			clock.advance(100);
+			list.add(3);
+
+			expect(value.peek()).toEqual([1, 2]);
+		});
+
+		it("should cancel pending updates when its scope is disposed", () => {
+			const clock = new ManualClock();
+			const state = new State(1);
+			const value = createScope((dispose) => {
+				const created = debounced(state, 100, { clock });
+				state.set(2);
+				dispose();
+				return created;
+			});
+
+			clock.advance(100);
+			state.set(3);
+			clock.advance(100);
+
+			expect(value.isDisposed).toBe(true);
+			expect(value.peek()).toBe(1);
+		});
+
+		it("should not be writable", () => {
+			const value = debounced(new State(1), 100, { clock: new ManualClock() });
+
+			expect("set" in value).toBe(false);
+		});
+	});
+
+	describe("throttled", () => {
+		it("should apply the first change and the last change of each interval", () => {
+			const clock = new ManualClock();
+			const state = new State(0);
+			const value = throttled(state, 100, { clock });
+			const mockCallback = jest.fn();
+			value.onChange(mockCallback);
+
+			state.set(1);
+
+			expect(value.peek()).toBe(1);
+
+			clock.advance(30);
+			state.set(2);
+			state.set(3);
+
+			expect(value.peek()).toBe(1);
+
+			clock.advance(70);
+
+			expect(value.peek()).toBe(3);
+			expect(mockCallback.mock.calls).toEqual([[1], [3]]);
+
+			clock.advance(200);
+			state.set(4);
+
+			expect(value.peek()).toBe(4);
+		});
+	});
+
+	describe("delayed", () => {
+		it("should apply every change after the delay", () => {
+			const clock = new ManualClock();
+			const state = new State(0);
+			const value = delayed(state, 100, { clock });
+			const mockCallback = jest.fn();
+			value.onChange(mockCallback);
+
+			state.set(1);
+			clock.advance(50);
+			state.set(2);
+
+			expect(value.peek()).toBe(0);
+
+			clock.advance(50);
+
+			expect(value.peek()).toBe(1);
+
+			clock.advance(50);
+
+			expect(value.peek()).toBe(2);
+			expect(mockCallback.mock.calls).toEqual([[1], [2]]);
+		});
+	});
+});
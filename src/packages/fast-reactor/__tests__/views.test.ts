@@ -0,0 +1,145 @@
+import { describe, expect, it, jest } from "bun:test";
+import { Computed } from "../computed";
+import { Observer } from "../observer";
+import { State } from "../state";
+import { asReadonly, lens } from "../views";
+
+interface Settings {
+	readonly limit: number;
+	readonly weights: { readonly cost: number; readonly diversity: number };
+}
+
+const DEFAULT_SETTINGS: Settings = { limit: 10, weights: { cost: 1, diversity: 1 } };
+
+function diversityOf(settingsState: State<Settings>) {
+	return lens(
+		settingsState,
+		(settings) => settings.weights.diversity,
+		(settings, diversity) => ({ ...settings, weights: { ...settings.weights, diversity } }),
+	);
+}
+
+describe("FastReactor.Views", () => {
+	describe("asReadonly", () => {
+		it("should follow the underlying reactive", () => {
+			const state = new State(1);
+			const view = asReadonly(state);
+			const doubled = new Computed(() => view.get() * 2);
+			const mockCallback = jest.fn();
+			Observer.watch(view, mockCallback);
+
+			state.set(2);
+
+			expect(view.peek()).toBe(2);
+			expect(view.value).toBe(2);
+			expect(doubled.peek()).toBe(4);
+			expect(mockCallback).toHaveBeenCalledWith(2);
+		});
+
+		it("should not expose a setter", () => {
+			const view = asReadonly(new State(1));
+
+			expect("set" in view).toBe(false);
+		});
+
+		it("should reject writes", () => {
+			const state = new State(1);
+			const view = asReadonly(state);
+
+			expect(() => {
+				// @ts-expect-error The view has no setter.
+				view.value = 2;
+			}).toThrow(TypeError);
+			expect(() => {
+				// @ts-expect-error The view has no set method.
+				view.set(2);
+			}).toThrow(TypeError);
+			expect(state.peek()).toBe(1);
+		});
+
+		it("should share the version and listeners of the underlying reactive", () => {
+			const state = new State(1);
+			const view = asReadonly(state);
+			const mockCallback = jest.fn();
+			const stopListening = view.onChange(mockCallback);
+
+			state.set(2);
+			stopListening();
+			state.set(3);
+
+			expect(view.version).toBe(state.version);
+			expect(view.read()).toBe(3);
+			expect(mockCallback).toHaveBeenCalledTimes(1);
+			expect(mockCallback).toHaveBeenCalledWith(2);
+		});
+	});
+
+	describe("lens", () => {
+		it("should write the focused part back immutably", () => {
+			const settingsState = new State(DEFAULT_SETTINGS);
+			const diversity = diversityOf(settingsState);
+
+			diversity.set(0.5);
+
+			expect(diversity.peek()).toBe(0.5);
+			expect(settingsState.peek()).toEqual({ limit: 10, weights: { cost: 1, diversity: 0.5 } });
+			expect(DEFAULT_SETTINGS.weights.diversity).toBe(1);
+		});
+
+		it("should only notify dependents when the focused part changes", () => {
+			const settingsState = new State(DEFAULT_SETTINGS);
+			const diversity = diversityOf(settingsState);
+			const computeFunction = jest.fn(() => diversity.get() * 100);
+			const percentage = new Computed(computeFunction);
+			const mockCallback = jest.fn();
+			percentage.onChange(mockCallback);
+
+			settingsState.set({ ...settingsState.peek(), limit: 25 });
+
+			expect(percentage.peek()).toBe(100);
+			expect(computeFunction).toHaveBeenCalledTimes(1);
+
+			diversity.write(0.25);
+
+			expect(mockCallback).toHaveBeenCalledWith(25);
+			expect(computeFunction).toHaveBeenCalledTimes(2);
+		});
+
+		it("should write nested lenses back through every level", () => {
+			const settingsState = new State(DEFAULT_SETTINGS);
+			const weights = lens(
+				settingsState,
+				(settings) => settings.weights,
+				(settings, value) => ({ ...settings, weights: value }),
+			);
+			const cost = lens(
+				weights,
+				(value) => value.cost,
+				(value, part) => ({ ...value, cost: part }),
+			);
+			const mockCallback = jest.fn();
+			cost.onChange(mockCallback);
+
+			cost.value = 3;
+
+			expect(cost.read()).toBe(3);
+			expect(weights.peek()).toEqual({ cost: 3, diversity: 1 });
+			expect(settingsState.peek()).toEqual({ limit: 10, weights: { cost: 3, diversity: 1 } });
+			expect(DEFAULT_SETTINGS.weights.cost).toBe(1);
+			expect(mockCallback).toHaveBeenCalledWith(3);
+		});
+
+		it("should stop following the source when disposed", () => {
+			const settingsState = new State(DEFAULT_SETTINGS);
+			const diversity = diversityOf(settingsState);
+			const mockCallback = jest.fn();
+			diversity.onChange(mockCallback);
+
+			diversity.dispose();
+			settingsState.set({ ...DEFAULT_SETTINGS, weights: { cost: 1, diversity: 0.75 } });
+
+			expect(diversity.peek()).toBe(1);
+			expect(mockCallback).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "bun:test";
+import { Computed } from "../computed";
+import { ReactiveMap } from "../reactive-map";
+import { State } from "../state";
+import { expectLiveDependentsAsync } from "../testing";
+import { WeakDependentSet } from "../weak-dependents";
+
+function readFromDroppedComputeds(source: State<number>, count: number): void {
+	for (let index = 0; index < count; index += 1) new Computed(() => source.get() + index).peek();
+}
+
+describe("FastReactor.WeakDependentSet", () => {
+	it("should add, iterate and delete dependents", () => {
+		const dependents = new WeakDependentSet();
+		const first = { invalidate: (): void => undefined };
+		const second = { invalidate: (): void => undefined };
+
+		dependents.add(first);
+		dependents.add(second);
+		dependents.add(first);
+
+		expect([...dependents]).toEqual([first, second]);
+		expect(dependents.size).toBe(2);
+
+		dependents.delete(first);
+
+		expect([...dependents]).toEqual([second]);
+		expect(dependents.size).toBe(1);
+	});
+
+	it("should let unreferenced computeds be collected", async () => {
+		const source = new State(0, { debugName: "source", weakDependents: true });
+		readFromDroppedComputeds(source, 20);
+
+		await expectLiveDependentsAsync(source, 0);
+	});
+
+	it("should let unreferenced computeds reading a map be collected", async () => {
+		const source = new ReactiveMap([["limit", 0]], { debugName: "source", weakDependents: true });
+		for (let index = 0; index < 20; index += 1) new Computed(() => source.get().size + index).peek();
+
+		await expectLiveDependentsAsync(source, 0);
+	});
+
+	it("should keep computeds alive by default", async () => {
+		const source = new State(0, { debugName: "source" });
+		readFromDroppedComputeds(source, 20);
+
+		await expectLiveDependentsAsync(source, 20);
+		await expect(expectLiveDependentsAsync(source, 0)).rejects.toThrow(
+			"Expected 0 live dependents of source, found 20.",
+		);
+	});
+
+	it("should keep notifying referenced computeds", async () => {
+		const source = new State(1, { weakDependents: true });
+		const doubled = new Computed(() => source.get() * 2, { weakDependents: true });
+		const quadrupled = new Computed(() => doubled.get() * 2);
+
+		await expectLiveDependentsAsync(source, 1);
+		source.set(2);
+
+		expect(quadrupled.peek()).toBe(8);
+	});
+});
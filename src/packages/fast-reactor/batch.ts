@@ -0,0 +1,209 @@
+import type { Settleable, Transactional } from "./types";
+
+type Frame = Map<Transactional<unknown>, unknown>;
+
+const frames = new Array<Frame>();
+let depth = 0;
+
+let transactionCount = 0;
+let openTransaction: number | undefined;
+let committingTransaction: number | undefined;
+
+const pendingSettles = new Set<Settleable>();
+let propagationDepth = 0;
+let isFlushing = false;
+
+function rollback(frame: Frame): void {
+	for (const [source, snapshot] of frame) source.restore(snapshot);
+}
+
+function byHeight(a: Settleable, b: Settleable): number {
+	return a.height - b.height;
+}
+
+function flush(): void {
+	if (isFlushing) return;
+	isFlushing = true;
+
+	// Every scheduled dependent settles even if another one throws, otherwise
+	// it would stay stale and ignore every later change.
+	const errors = new Array<unknown>();
+	while (pendingSettles.size > 0) {
+		const queue = [...pendingSettles].sort(byHeight);
+		pendingSettles.clear();
+		for (const settleable of queue) {
+			try {
+				settleable.settle();
+			} catch (exception) {
+				errors.push(exception);
+			}
+		}
+	}
+
+	isFlushing = false;
+	if (errors.length === 1) throw errors[0];
+	if (errors.length > 1) throw new AggregateError(errors, "Multiple dependents threw while settling");
+}
+
+/**
+ * Gets an identifier for the batch whose changes are currently being
+ * delivered. Listeners called while the same batch commits see the same
+ * identifier, which lets them group the changes made by one batch.
+ *
+ * @returns The identifier, or `undefined` outside of a batch commit.
+ */
+export function getCommittingTransaction(): number | undefined {
+	return committingTransaction;
+}
+
+/**
+ * Gets an identifier for the outermost batch that is currently open. It is the
+ * identifier {@linkcode getCommittingTransaction} reports once the batch
+ * commits, which lets a writer recognize the notifications caused by its own
+ * writes.
+ *
+ * @returns The identifier, or `undefined` outside of a batch.
+ */
+export function getOpenTransaction(): number | undefined {
+	return openTransaction;
+}
+
+/**
+ * Checks whether a batch is currently open.
+ *
+ * @returns `true` if writes are currently being deferred by {@linkcode batch}.
+ */
+export function isBatching(): boolean {
+	return depth > 0;
+}
+
+/**
+ * Runs the mark phase of a change. Dependents invalidated inside the callback
+ * only mark themselves stale and schedule themselves with
+ * {@linkcode scheduleSettle}; once the outermost propagation finishes (and no
+ * batch is open), every scheduled dependent settles in order of height, so
+ * each one observes the dependency graph after it has fully settled.
+ *
+ * @param callback - The function that marks dependents as stale.
+ */
+export function propagate(callback: () => void): void {
+	propagationDepth += 1;
+	try {
+		callback();
+	} catch (exception) {
+		// Dependents marked before the callback threw still have to settle,
+		// otherwise they would ignore every later change.
+		propagationDepth -= 1;
+		if (propagationDepth === 0 && depth === 0) {
+			try {
+				flush();
+			} catch (flushException) {
+				throw new AggregateError([exception, flushException], "Multiple errors were thrown while propagating");
+			}
+		}
+
+		throw exception;
+	}
+
+	propagationDepth -= 1;
+	if (propagationDepth === 0 && depth === 0) flush();
+}
+
+/**
+ * Schedules a dependent to settle once the current propagation finishes.
+ *
+ * @param settleable - The dependent to settle.
+ */
+export function scheduleSettle(settleable: Settleable): void {
+	pendingSettles.add(settleable);
+}
+
+/**
+ * Records that the specified source is about to be written inside the current
+ * batch. The first write of a source in each batch captures a snapshot that is
+ * used to roll the source back if the batch throws. Does nothing when no batch
+ * is open.
+ *
+ * @template S The type of the snapshot captured by the source.
+ * @param source - The source that is about to be written.
+ */
+export function recordWrite<S>(source: Transactional<S>): void {
+	if (depth <= 0) return;
+
+	const frame = frames[depth - 1];
+	if (frame === undefined || frame.has(source)) return;
+	frame.set(source, source.snapshot());
+}
+
+/**
+ * Runs the callback as a single transaction. Writes made inside the callback
+ * are applied immediately, but invalidation of dependents and delivery of
+ * change listeners are deferred until the outermost batch exits, so every
+ * source written in the batch notifies exactly once.
+ *
+ * If the callback throws, every write made inside it is rolled back without
+ * notifying listeners and the error is rethrown. Values derived from the
+ * discarded writes inside the batch are recomputed when next read. Nested
+ * batches roll back only their own writes.
+ *
+ * @example
+ *
+ * ```typescript
+ * const firstName = new State("John");
+ * const lastName = new State("Doe");
+ * const fullName = new Computed(() => `${firstName.get()} ${lastName.get()}`);
+ *
+ * Observer.watch(fullName, print); // "John Doe"
+ * batch(() => {
+ * 	firstName.set("Jane");
+ * 	lastName.set("Smith");
+ * }); // "Jane Smith", never "Jane Doe"
+ * ```
+ *
+ * @template T The type of the result.
+ * @param callback - The function to execute inside the batch.
+ * @returns The result of the callback.
+ */
+export function batch<T>(callback: () => T): T {
+	const frame: Frame = new Map();
+	frames[depth] = frame;
+	if (depth === 0) {
+		transactionCount += 1;
+		openTransaction = transactionCount;
+	}
+	depth += 1;
+
+	const transaction = openTransaction;
+	let result: T;
+	try {
+		result = callback();
+	} catch (exception) {
+		depth -= 1;
+		frames.length = depth;
+		if (depth === 0) openTransaction = undefined;
+		propagate((): void => rollback(frame));
+		throw exception;
+	}
+
+	depth -= 1;
+	frames.length = depth;
+
+	const parent = frames[depth - 1];
+	if (parent !== undefined) {
+		for (const [source, snapshot] of frame) if (!parent.has(source)) parent.set(source, snapshot);
+		return result;
+	}
+
+	openTransaction = undefined;
+	const previousTransaction = committingTransaction;
+	committingTransaction = transaction;
+	try {
+		propagate((): void => {
+			for (const [source, snapshot] of frame) source.commit(snapshot);
+		});
+	} finally {
+		committingTransaction = previousTransaction;
+	}
+
+	return result;
+}
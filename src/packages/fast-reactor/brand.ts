@@ -0,0 +1,18 @@
+import type { ReadonlyReactive } from "./types";
+
+/**
+ * Marks every object implementing `Reactive`, so reactives can be told apart
+ * from plain objects that happen to share some of their members.
+ */
+export const reactiveBrand: unique symbol = Symbol.for("fast-reactor.reactive");
+
+/**
+ * Checks whether a value is a reactive, such as a `State`, `Computed` or
+ * `ReactiveList`.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value carries the {@linkcode reactiveBrand}.
+ */
+export function isReactive(value: unknown): value is ReadonlyReactive<unknown> {
+	return value !== null && typeof value === "object" && reactiveBrand in value;
+}
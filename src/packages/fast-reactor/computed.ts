@@ -1,23 +1,92 @@
 //!optimize 2
 
 import type { Cleanup } from "types/utility-types";
-import { track, trackDependency } from "./dependency-tracker";
-import type { Dependent, Observable, Reactive } from "./types";
+import { propagate, scheduleSettle } from "./batch";
+import { reactiveBrand } from "./brand";
+import { CircularDependencyError, type Tracked, track, trackDependency } from "./dependency-tracker";
+import { strictEqual } from "./equality";
+import { onDispose } from "./scope";
+import type {
+	Debuggable,
+	DebugInfo,
+	Dependent,
+	EqualityFunction,
+	Observable,
+	Reactive,
+	ReactiveOptions,
+	Settleable,
+} from "./types";
+import { createDependentSet, type DependentSet } from "./weak-dependents";
 
-function clearDependencies(object: Dependent, dependencies: Set<Observable>): void {
-	for (const dependency of dependencies) dependency.removeDependent(object);
+function clearDependencies(object: Dependent, dependencies: Map<Observable, number>): void {
+	for (const dependency of dependencies.keys()) dependency.removeDependent(object);
 	dependencies.clear();
 }
+function notifyDependents(dependents: DependentSet): void {
+	for (const dependent of [...dependents]) dependent.invalidate();
+}
+
+/**
+ * Checks whether any of the dependencies changed since their versions were
+ * recorded, bringing upstream computeds up to date first.
+ *
+ * @param dependencies - The dependencies mapped to the versions last read.
+ * @returns `true` if any dependency has a different version.
+ */
+export function hasChangedDependencies(dependencies: Map<Observable, number>): boolean {
+	for (const [dependency, version] of dependencies) {
+		if (dependency instanceof Computed) dependency.refresh();
+		if (dependency.version !== version) return true;
+	}
+
+	return false;
+}
+
+/**
+ * Records the current version of every tracked dependency.
+ *
+ * @param versions - The map to record the versions into.
+ * @param dependencies - The dependencies collected by `track`.
+ * @returns The height of a dependent reading these dependencies.
+ */
+export function recordDependencies(versions: Map<Observable, number>, dependencies: Set<Observable>): number {
+	let height = 0;
+	for (const dependency of dependencies) {
+		versions.set(dependency, dependency.version);
+		if (dependency instanceof Computed && dependency.height >= height) height = dependency.height + 1;
+	}
+
+	return height;
+}
 
 const ONLY_ON_COMPUTED_ARRAYS = "This operation is only available on computed arrays";
 
+/** The element type of T when T is an array, otherwise `never`. */
+type ItemOf<T> = T extends ReadonlyArray<infer U> ? U : never;
+
 /**
  * Represents a computed value that automatically updates when its dependencies
  * change.
  *
+ * Changes propagate in two phases. When a source changes, every computed
+ * downstream of it is only marked stale. Once the change has finished
+ * propagating, computeds with listeners settle in order of height, pulling
+ * fresh values from upstream. A computed only recomputes if the version of one
+ * of its dependencies actually changed, so listeners never observe a value
+ * derived from a mix of fresh and stale dependencies.
+ *
+ * An error thrown by the compute function is captured instead of escaping
+ * from whichever read happened to trigger the recomputation. The computed is
+ * then errored: reading it rethrows the error, so computeds reading it become
+ * errored too, and listeners are skipped in favour of the
+ * {@linkcode Computed.onError} handlers until a dependency changes and the
+ * computation succeeds.
+ *
  * @template T The type of the computed value.
  */
-export class Computed<T> implements Dependent, Reactive<T> {
+export class Computed<T> implements Debuggable, Dependent, Reactive<T>, Settleable {
+	public readonly [reactiveBrand] = true;
+
 	/**
 	 * Whether to force eager evaluation of the computed value. If set to true,
 	 * the computed value will be recalculated immediately when invalidated.
@@ -31,10 +100,85 @@ export class Computed<T> implements Dependent, Reactive<T> {
 		this.set(value);
 	}
 
+	/**
+	 * The error captured by the latest computation, or `undefined` if it
+	 * succeeded. Created on first access.
+	 */
+	public get error(): Reactive<unknown> {
+		this.errorComputed ??= new Computed((): unknown => {
+			trackDependency(this);
+			this.refresh();
+			return this.hasError ? this.currentError : undefined;
+		});
+		return this.errorComputed;
+	}
+
+	/**
+	 * The distance of this computed from the sources it reads. Computeds that
+	 * only read sources have a height of zero.
+	 */
+	public get height(): number {
+		return this.internalHeight;
+	}
+
+	/** Whether the computed has been disposed. */
+	public get isDisposed(): boolean {
+		return this.isDestroyed;
+	}
+
+	/** Whether the latest computation threw. Does not track a dependency. */
+	public get isErrored(): boolean {
+		this.refresh();
+		return this.hasError;
+	}
+
+	public get version(): number {
+		return this.internalVersion;
+	}
+
 	public addDependent(dependent: Dependent): void {
 		this.dependents.add(dependent);
 	}
 
+	/**
+	 * Creates a new computed that has the value of this computed, or the
+	 * result of the fallback function while this computed is errored.
+	 *
+	 * @example
+	 *
+	 * ```typescript
+	 * const weights = new Computed(() => parseWeights(weightsText.get()));
+	 * const safeWeights = weights.catchError(() => defaultWeights);
+	 * ```
+	 *
+	 * @param fallback - The function mapping the error to a value.
+	 * @returns A new computed value that is never errored by this computed.
+	 */
+	public catchError(fallback: (error: unknown) => T): Computed<T> {
+		return new Computed<T>((): T => {
+			try {
+				return this.get();
+			} catch (exception) {
+				if (exception instanceof CircularDependencyError) throw exception;
+				return fallback(exception);
+			}
+		});
+	}
+
+	/**
+	 * Detaches the computed from every reactive it depends on and removes its
+	 * listeners. A disposed computed keeps its last value and never recomputes.
+	 */
+	public dispose(): void {
+		if (this.isDestroyed) return;
+
+		this.isDestroyed = true;
+		this.isDirty = false;
+		clearDependencies(this, this.dependencies);
+		this.errorHandlers.clear();
+		this.listeners.clear();
+	}
+
 	/**
 	 * Checks if all elements in the array satisfy the predicate. Only available
 	 * when T is an array.
@@ -44,15 +188,10 @@ export class Computed<T> implements Dependent, Reactive<T> {
 	 *   array satisfy the predicate function.
 	 * @throws {InvalidOperationError} If this computed is not an array.
 	 */
-	public every(predicate: (item: T extends Array<infer U> ? U : never) => boolean): Computed<boolean> {
-		if (Array.isArray(this.peek())) {
-			const exception = new Error(ONLY_ON_COMPUTED_ARRAYS);
-			exception.name = "InvalidOperationError";
-			Error.captureStackTrace(exception, this.every);
-			throw exception;
-		}
+	public every(predicate: (item: ItemOf<T>) => boolean): Computed<boolean> {
+		this.assertArray(this.every);
 
-		return new Computed<boolean>((): boolean => (this.get() as Array<never>).every(predicate));
+		return new Computed<boolean>((): boolean => this.getItems().every(predicate));
 	}
 
 	/**
@@ -75,16 +214,42 @@ export class Computed<T> implements Dependent, Reactive<T> {
 	 * @param predicate - The predicate function to test each item in the array.
 	 * @returns A new computed array that contains only the items that satisfy
 	 *   the predicate function.
+	 * @throws {InvalidOperationError} If this computed is not an array.
 	 */
-	public filterItems(predicate: (item: T extends Array<infer U> ? U : never) => boolean): Computed<Array<T>> {
-		if (Array.isArray(this.peek())) {
-			const exception = new Error(ONLY_ON_COMPUTED_ARRAYS);
-			exception.name = "InvalidOperationError";
-			Error.captureStackTrace(exception, this.filterItems);
-			throw exception;
-		}
+	public filterItems(predicate: (item: ItemOf<T>) => boolean): Computed<Array<ItemOf<T>>> {
+		this.assertArray(this.filterItems);
 
-		return new Computed<Array<T>>((): Array<T> => (this.get() as Array<never>).filter(predicate));
+		return new Computed<Array<ItemOf<T>>>((): Array<ItemOf<T>> => this.getItems().filter(predicate));
+	}
+
+	/**
+	 * Finds the first element in the array that satisfies the predicate. Only
+	 * available when T is an array.
+	 *
+	 * @param predicate - The predicate function to test each item in the array.
+	 * @returns A new computed value holding the first item that satisfies the
+	 *   predicate function, or `undefined` if there is none.
+	 * @throws {InvalidOperationError} If this computed is not an array.
+	 */
+	public find(predicate: (item: ItemOf<T>) => boolean): Computed<ItemOf<T> | undefined> {
+		this.assertArray(this.find);
+
+		return new Computed<ItemOf<T> | undefined>((): ItemOf<T> | undefined => this.getItems().find(predicate));
+	}
+
+	/**
+	 * Finds the index of the first element in the array that satisfies the
+	 * predicate. Only available when T is an array.
+	 *
+	 * @param predicate - The predicate function to test each item in the array.
+	 * @returns A new computed index of the first item that satisfies the
+	 *   predicate function, or -1 if there is none.
+	 * @throws {InvalidOperationError} If this computed is not an array.
+	 */
+	public findIndex(predicate: (item: ItemOf<T>) => boolean): Computed<number> {
+		this.assertArray(this.findIndex);
+
+		return new Computed<number>((): number => this.getItems().findIndex(predicate));
 	}
 
 	public get(): T {
@@ -92,22 +257,70 @@ export class Computed<T> implements Dependent, Reactive<T> {
 		return this.peek();
 	}
 
+	public getDebugInfo(): DebugInfo {
+		return {
+			dependencies: [...this.dependencies.keys()],
+			dependents: [...this.dependents],
+			kind: "Computed",
+			lastChangedAt: this.lastChangedAt,
+			name: this.debugName,
+			recomputeCount: this.recomputeCount,
+		};
+	}
+
+	/**
+	 * Checks if the array contains an element. Only available when T is an
+	 * array.
+	 *
+	 * @param item - The item to look for, compared with `SameValueZero`.
+	 * @returns A new computed boolean value that is true if the array contains
+	 *   the item.
+	 * @throws {InvalidOperationError} If this computed is not an array.
+	 */
+	public includes(item: ItemOf<T>): Computed<boolean> {
+		this.assertArray(this.includes);
+
+		return new Computed<boolean>((): boolean => this.getItems().includes(item));
+	}
+
 	/**
-	 * Invalidates the current value, causing a recalculation when next
-	 * accessed.
+	 * Marks the current value as stale, causing a recalculation when next
+	 * accessed if any dependency has changed. Computeds with listeners, or
+	 * with {@linkcode forceEager} set, are scheduled to settle once the change
+	 * has finished propagating.
 	 */
 	public invalidate(): void {
-		if (this.isDirty) return;
+		if (this.isDirty || this.isDestroyed) return;
 
 		this.isDirty = true;
-		this.notifyDependents();
+		notifyDependents(this.dependents);
+		if (this.listeners.size > 0 || this.errorHandlers.size > 0 || this.forceEager) scheduleSettle(this);
+	}
 
-		const { listeners } = this;
-		if (listeners.size > 0 || this.forceEager) {
-			const previousValue = this.cachedValue;
-			const nextValue = this.peek();
-			if (previousValue !== nextValue) for (const listener of listeners) listener(nextValue);
-		}
+	/**
+	 * Joins the elements of the array into a string. Only available when T is
+	 * an array.
+	 *
+	 * @param separator - The string separating the items. Defaults to a comma.
+	 * @returns A new computed string.
+	 * @throws {InvalidOperationError} If this computed is not an array.
+	 */
+	public join(separator?: string): Computed<string> {
+		this.assertArray(this.join);
+
+		return new Computed<string>((): string => this.getItems().join(separator));
+	}
+
+	/**
+	 * Counts the elements of the array. Only available when T is an array.
+	 *
+	 * @returns A new computed number of items in the array.
+	 * @throws {InvalidOperationError} If this computed is not an array.
+	 */
+	public length(): Computed<number> {
+		this.assertArray(this.length);
+
+		return new Computed<number>((): number => this.getItems().length);
 	}
 
 	/**
@@ -130,30 +343,50 @@ export class Computed<T> implements Dependent, Reactive<T> {
 	 *   array.
 	 * @returns A new computed array that applies the selector function to each
 	 *   item in the array.
+	 * @throws {InvalidOperationError} If this computed is not an array.
 	 */
-	public mapItems<R>(selector: (item: T extends Array<infer U> ? U : never) => R): Computed<Array<R>> {
-		if (Array.isArray(this.peek())) {
-			const exception = new Error(ONLY_ON_COMPUTED_ARRAYS);
-			exception.name = "InvalidOperationError";
-			Error.captureStackTrace(exception, this.mapItems);
-			throw exception;
-		}
+	public mapItems<R>(selector: (item: ItemOf<T>) => R): Computed<Array<R>> {
+		this.assertArray(this.mapItems);
 
-		return new Computed<Array<R>>((): Array<R> => (this.get() as Array<never>).map(selector));
+		return new Computed<Array<R>>((): Array<R> => this.getItems().map(selector));
 	}
 
 	public notifyDependents(): void {
-		for (const dependent of [...this.dependents]) dependent.invalidate();
+		const { dependents } = this;
+		propagate((): void => notifyDependents(dependents));
 	}
 
 	public onChange(callback: (value: T) => void): Cleanup {
+		this.startDelivering();
 		const { listeners } = this;
 		listeners.add(callback);
 		return () => listeners.delete(callback);
 	}
 
+	/**
+	 * Registers a callback for errors. It is called when a computation throws,
+	 * instead of the change callbacks. Without error callbacks, errors are
+	 * only exposed through {@linkcode Computed.error}.
+	 *
+	 * @param callback - The function to call with the error.
+	 * @returns A function that can be called to unregister the callback.
+	 */
+	public onError(callback: (error: unknown) => void): Cleanup {
+		this.startDelivering();
+		const { errorHandlers } = this;
+		errorHandlers.add(callback);
+		return () => errorHandlers.delete(callback);
+	}
+
+	/**
+	 * Gets the current value without tracking dependencies.
+	 *
+	 * @returns The current value.
+	 * @throws {unknown} The captured error if the computed is errored.
+	 */
 	public peek(): T {
-		if (this.isDirty) this.recompute();
+		this.refresh();
+		if (this.hasError) throw this.currentError;
 		return this.cachedValue;
 	}
 
@@ -161,16 +394,75 @@ export class Computed<T> implements Dependent, Reactive<T> {
 		return this.get();
 	}
 
-	/** Recalculates the value of the computed. */
+	/**
+	 * Recalculates the value of the computed, capturing any error thrown by
+	 * the compute function. A circular dependency is not captured; the
+	 * computed is left without dependencies or a value, and recomputes on the
+	 * next read.
+	 *
+	 * @throws {CircularDependencyError} If the computation reads a value that
+	 *   depends on this computed.
+	 */
 	public recompute(): void {
+		if (this.isDestroyed) return;
 		clearDependencies(this, this.dependencies);
 
-		const { dependencies, result } = track(this, this.computeFunction);
-		this.dependencies = dependencies;
-		this.cachedValue = result;
+		let error: unknown;
+		let isErrored = false;
+		let tracked: Tracked<T | undefined>;
+		try {
+			tracked = track(this, (): T | undefined => {
+				try {
+					return this.computeFunction();
+				} catch (exception) {
+					if (exception instanceof CircularDependencyError) throw exception;
+					error = exception;
+					isErrored = true;
+					return undefined;
+				}
+			});
+		} catch (exception) {
+			this.hasValue = false;
+			throw exception;
+		}
+
+		const { dependencies, result } = tracked;
+		this.internalHeight = recordDependencies(this.dependencies, dependencies);
+		this.recomputeCount += 1;
+		if (isErrored) this.fail(error);
+		else this.succeed(result as T);
+
+		this.hasValue = true;
 		this.isDirty = false;
 	}
 
+	/**
+	 * Reduces the elements of the array to a single value. Only available when
+	 * T is an array.
+	 *
+	 * @param reducer - The function combining the accumulated value with each
+	 *   item in the array.
+	 * @param initialValue - The value the reduction starts from.
+	 * @returns A new computed value holding the result of the reduction.
+	 * @throws {InvalidOperationError} If this computed is not an array.
+	 */
+	public reduce<R>(reducer: (accumulator: R, item: ItemOf<T>) => R, initialValue: R): Computed<R> {
+		this.assertArray(this.reduce);
+
+		return new Computed<R>((): R => this.getItems().reduce(reducer, initialValue));
+	}
+
+	/**
+	 * Brings the value up to date without tracking a dependency or throwing
+	 * the captured error.
+	 */
+	public refresh(): void {
+		if (!this.isDirty) return;
+
+		if (!this.hasValue || this.haveDependenciesChanged()) this.recompute();
+		else this.isDirty = false;
+	}
+
 	public removeDependent(dependent: Dependent): void {
 		this.dependents.delete(dependent);
 	}
@@ -197,7 +489,21 @@ export class Computed<T> implements Dependent, Reactive<T> {
 	 */
 	public setForceEager(forceEager: boolean): void {
 		this.forceEager = forceEager;
-		if (forceEager && this.isDirty) this.invalidate();
+		if (forceEager && this.isDirty) propagate((): void => scheduleSettle(this));
+	}
+
+	/**
+	 * Brings the value up to date and notifies listeners if it changed since
+	 * they were last notified.
+	 */
+	public settle(): void {
+		this.refresh();
+		const version = this.internalVersion;
+		if (version === this.deliveredVersion) return;
+
+		this.deliveredVersion = version;
+		if (!this.hasError) for (const listener of this.listeners) listener(this.cachedValue);
+		else for (const handler of this.errorHandlers) handler(this.currentError);
 	}
 
 	/**
@@ -207,26 +513,110 @@ export class Computed<T> implements Dependent, Reactive<T> {
 	 * @param predicate - The predicate function to test each item in the array.
 	 * @returns A new computed boolean value that is true if any item in the
 	 *   array satisfies the predicate.
+	 * @throws {InvalidOperationError} If this computed is not an array.
+	 */
+	public some(predicate: (item: ItemOf<T>) => boolean): Computed<boolean> {
+		this.assertArray(this.some);
+
+		return new Computed<boolean>((): boolean => this.getItems().some(predicate));
+	}
+
+	/**
+	 * Sorts a copy of the array. Only available when T is an array.
+	 *
+	 * @param compare - The function ordering two items. Defaults to comparing
+	 *   their string representations.
+	 * @returns A new computed sorted array. The array of this computed is left
+	 *   untouched.
+	 * @throws {InvalidOperationError} If this computed is not an array.
 	 */
-	public some(predicate: (item: T extends Array<infer U> ? U : never) => boolean): Computed<boolean> {
-		if (Array.isArray(this.peek())) {
+	public sort(compare?: (a: ItemOf<T>, b: ItemOf<T>) => number): Computed<Array<ItemOf<T>>> {
+		this.assertArray(this.sort);
+
+		return new Computed<Array<ItemOf<T>>>((): Array<ItemOf<T>> => this.getItems().toSorted(compare));
+	}
+
+	/**
+	 * Creates a new computed value.
+	 *
+	 * @param computeFunction - The function deriving the value from other
+	 *   reactives.
+	 * @param options - Options controlling how changes are detected.
+	 */
+	public constructor(
+		private readonly computeFunction: () => T,
+		options?: ReactiveOptions<T>,
+	) {
+		this.equals = options?.equals ?? strictEqual;
+		this.debugName = options?.debugName;
+		this.dependents = createDependentSet(options?.weakDependents);
+		this.cachedValue = undefined as T;
+		this.refresh();
+		onDispose(() => this.dispose());
+	}
+
+	private assertArray(caller: (...args: never) => unknown): void {
+		if (!Array.isArray(this.peek())) {
 			const exception = new Error(ONLY_ON_COMPUTED_ARRAYS);
 			exception.name = "InvalidOperationError";
-			Error.captureStackTrace(exception, this.some);
+			Error.captureStackTrace(exception, caller);
 			throw exception;
 		}
+	}
 
-		return new Computed<boolean>((): boolean => (this.get() as Array<never>).some(predicate));
+	private fail(error: unknown): void {
+		if (this.hasError && Object.is(this.currentError, error)) return;
+
+		this.currentError = error;
+		this.hasError = true;
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
 	}
 
-	public constructor(private readonly computeFunction: () => T) {
-		this.cachedValue = undefined as T;
-		const _unused = this.peek();
+	private getItems(): ReadonlyArray<ItemOf<T>> {
+		return this.get() as ReadonlyArray<ItemOf<T>>;
+	}
+
+	private haveDependenciesChanged(): boolean {
+		// Checking brings upstream computeds up to date, so it is tracked too,
+		// letting a cycle through them be reported with its full path.
+		return track(this, () => hasChangedDependencies(this.dependencies)).result;
+	}
+
+	private startDelivering(): void {
+		if (this.listeners.size > 0 || this.errorHandlers.size > 0) return;
+
+		this.refresh();
+		this.deliveredVersion = this.internalVersion;
+	}
+
+	private succeed(value: T): void {
+		const isChanged = !this.hasValue || this.hasError || !this.equals(this.cachedValue, value);
+		this.currentError = undefined;
+		this.hasError = false;
+		if (!isChanged) return;
+
+		this.cachedValue = value;
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
 	}
 
 	private cachedValue!: T;
-	private dependencies = new Set<Observable>();
-	private readonly dependents = new Set<Dependent>();
+	private currentError: unknown;
+	private readonly debugName?: string;
+	private readonly dependencies = new Map<Observable, number>();
+	private readonly dependents: DependentSet;
+	private deliveredVersion = 0;
+	private readonly equals: EqualityFunction<T>;
+	private errorComputed?: Computed<unknown>;
+	private readonly errorHandlers = new Set<(error: unknown) => void>();
+	private hasError = false;
+	private hasValue = false;
+	private internalHeight = 0;
+	private internalVersion = 0;
+	private isDestroyed = false;
 	private isDirty = true;
+	private lastChangedAt?: number;
 	private readonly listeners = new Set<(value: T) => void>();
+	private recomputeCount = 0;
 }
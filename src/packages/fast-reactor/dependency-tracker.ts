@@ -1,7 +1,10 @@
-import type { Dependent, Observable } from "./types";
+import type { Debuggable, DebugInfo, Dependent, Observable } from "./types";
 
-const currentDependencies = new Set<Observable>();
-const dependentStack = new Array<Dependent>();
+// Each frame collects its own dependencies, so a nested computation never
+// disturbs the frame of the computation reading it. Frames pushed by `untrack`
+// are empty.
+const dependencyStack = new Array<Set<Observable> | undefined>();
+const dependentStack = new Array<Dependent | undefined>();
 let length = 0;
 
 export interface Tracked<T> {
@@ -9,6 +12,100 @@ export interface Tracked<T> {
 	readonly result: T;
 }
 
+/** A node of the graph returned by {@linkcode inspect}. */
+export interface GraphNode {
+	/** The identifier of the node, unique within its graph. */
+	readonly id: number;
+
+	/** The kind of node, such as `"State"` or `"Computed"`. */
+	readonly kind: string;
+
+	/** When the value last changed, in milliseconds since the epoch. */
+	readonly lastChangedAt: number | undefined;
+
+	/** The `debugName` of the node, or its kind and identifier. */
+	readonly name: string;
+
+	/** How many times the node has recomputed or re-run. */
+	readonly recomputeCount: number;
+}
+
+/** An edge of the graph returned by {@linkcode inspect}. */
+export interface GraphEdge {
+	/** The identifier of the node being read. */
+	readonly from: number;
+
+	/** The identifier of the node reading it. */
+	readonly to: number;
+}
+
+/** The dependency graph around a reactive. */
+export interface DependencyGraph {
+	/** The edges, pointing from dependencies to their dependents. */
+	readonly edges: ReadonlyArray<GraphEdge>;
+
+	/** The nodes, starting with the inspected reactive. */
+	readonly nodes: ReadonlyArray<GraphNode>;
+}
+
+function isDebuggable(object: object): object is Debuggable {
+	return "getDebugInfo" in object && typeof object.getDebugInfo === "function";
+}
+
+function getDebugInfo(object: object): DebugInfo {
+	if (isDebuggable(object)) return object.getDebugInfo();
+	return {
+		dependencies: [],
+		dependents: [],
+		kind: object.constructor.name,
+		lastChangedAt: undefined,
+		name: undefined,
+		recomputeCount: 0,
+	};
+}
+
+function describeDependent(dependent: Dependent): string {
+	const { kind, name } = getDebugInfo(dependent);
+	return name ?? kind;
+}
+
+/**
+ * Thrown when a computation reads a value that depends, directly or
+ * indirectly, on the computation itself.
+ */
+export class CircularDependencyError extends Error {
+	/**
+	 * Creates a new circular dependency error.
+	 *
+	 * @param cycle - The dependents forming the cycle, starting and ending with
+	 *   the dependent that was re-entered.
+	 */
+	public constructor(public readonly cycle: ReadonlyArray<Dependent>) {
+		super(`Circular dependency detected: ${cycle.map(describeDependent).join(" -> ")}`);
+		this.name = "CircularDependencyError";
+	}
+}
+
+function pushFrame(dependent: Dependent | undefined, dependencies: Set<Observable> | undefined): void {
+	dependencyStack[length] = dependencies;
+	dependentStack[length] = dependent;
+	length += 1;
+}
+
+function popFrame(): void {
+	length -= 1;
+	delete dependencyStack[length];
+	delete dependentStack[length];
+}
+
+function escapeLabel(label: string): string {
+	return label.replaceAll("\\", "\\\\").replaceAll('"', '\\"');
+}
+
+function describeNode(node: GraphNode): string {
+	return node.name === `${node.kind}#${node.id}` ? node.name : `${node.name} (${node.kind})`;
+}
+
 /**
  * Gets the current dependent being tracked, if any.
  *
@@ -26,25 +123,55 @@ export function getCurrentDependent(): Dependent | undefined {
  * @param dependent - The dependent that is tracking the dependencies.
  * @param callback - The function to execute while tracking dependencies.
  * @returns A `Tracked` object containing the dependencies and the result of the
- *   callback. If the callback fails, returns `undefined`.
+ *   callback.
+ * @throws {CircularDependencyError} If the dependent is already being
+ *   tracked, which means the callback reads a value that depends on itself.
  */
 export function track<T>(dependent: Dependent, callback: () => T): Tracked<T> {
-	dependentStack[length] = dependent;
-	length += 1;
-	currentDependencies.clear();
+	const start = length > 0 ? dependentStack.lastIndexOf(dependent, length - 1) : -1;
+	if (start !== -1) {
+		const cycle = dependentStack.slice(start, length).filter((entry) => entry !== undefined);
+		const exception = new CircularDependencyError([...cycle, dependent]);
+		Error.captureStackTrace(exception, track);
+		throw exception;
+	}
+
+	const dependencies = new Set<Observable>();
+	pushFrame(dependent, dependencies);
 
 	try {
 		const result = callback();
-		return {
-			dependencies: new Set(currentDependencies),
-			result,
-		};
+		return { dependencies, result };
+	} catch (exception) {
+		// The caller never sees the dependencies, so drop the edges to them.
+		for (const dependency of dependencies) dependency.removeDependent(dependent);
+		throw exception;
 	} finally {
-		const value = dependentStack[length - 1];
-		delete dependentStack[length - 1];
-		if (value !== undefined) length -= 1;
+		popFrame();
+	}
+}
 
-		currentDependencies.clear();
+/**
+ * Executes the specified function without tracking dependencies. Reactives
+ * read inside the callback are not subscribed to by the computation calling
+ * `untrack`.
+ *
+ * @example
+ *
+ * ```typescript
+ * const label = new Computed(() => `${cityState.get()} (limit ${untrack(() => limitState.get())})`);
+ * ```
+ *
+ * @template T The type of the result.
+ * @param callback - The function to execute.
+ * @returns The result of the callback.
+ */
+export function untrack<T>(callback: () => T): T {
+	pushFrame(undefined, undefined);
+	try {
+		return callback();
+	} finally {
+		popFrame();
 	}
 }
 
@@ -58,7 +185,108 @@ export function trackDependency(observable: Observable): void {
 
 	const currentDependent = getCurrentDependent();
 	if (currentDependent) {
-		currentDependencies.add(observable);
+		dependencyStack[length - 1]?.add(observable);
 		observable.addDependent(currentDependent);
 	}
 }
+
+/**
+ * Describes the dependency graph around a reactive: everything it reads,
+ * directly or indirectly, and everything that reads it. Intended for
+ * debugging; the graph is a copy and does not update.
+ *
+ * @example
+ *
+ * ```typescript
+ * const limit = new State(10, { debugName: "limit" });
+ * const doubled = new Computed(() => limit.get() * 2, { debugName: "doubled" });
+ *
+ * console.log(DependencyTracker.toMermaid(DependencyTracker.inspect(doubled)));
+ * ```
+ *
+ * @param reactive - The reactive to inspect.
+ * @returns The nodes and edges of the graph.
+ */
+export function inspect(reactive: object): DependencyGraph {
+	const ids = new Map<object, number>();
+	const nodes = new Array<GraphNode>();
+	const edges = new Array<GraphEdge>();
+	const edgeKeys = new Set<string>();
+
+	const visit = (object: object): number => {
+		const existing = ids.get(object);
+		if (existing !== undefined) return existing;
+
+		const id = nodes.length;
+		const info = getDebugInfo(object);
+		ids.set(object, id);
+		nodes.push({
+			id,
+			kind: info.kind,
+			lastChangedAt: info.lastChangedAt,
+			name: info.name ?? `${info.kind}#${id}`,
+			recomputeCount: info.recomputeCount,
+		});
+		return id;
+	};
+	const addEdge = (from: number, to: number): void => {
+		const key = `${from}->${to}`;
+		if (edgeKeys.has(key)) return;
+		edgeKeys.add(key);
+		edges.push({ from, to });
+	};
+
+	visit(reactive);
+	const upstream = [reactive];
+	for (let object = upstream.pop(); object !== undefined; object = upstream.pop()) {
+		const to = visit(object);
+		for (const dependency of getDebugInfo(object).dependencies) {
+			const isNew = !ids.has(dependency);
+			addEdge(visit(dependency), to);
+			if (isNew) upstream.push(dependency);
+		}
+	}
+
+	const downstream: Array<object> = [reactive];
+	const visitedDownstream = new Set<object>(downstream);
+	for (let object = downstream.pop(); object !== undefined; object = downstream.pop()) {
+		const from = visit(object);
+		for (const dependent of getDebugInfo(object).dependents) {
+			addEdge(from, visit(dependent));
+			if (!visitedDownstream.has(dependent)) {
+				visitedDownstream.add(dependent);
+				downstream.push(dependent);
+			}
+		}
+	}
+
+	return { edges, nodes };
+}
+
+/**
+ * Renders a graph returned by {@linkcode inspect} in the Graphviz DOT
+ * language.
+ *
+ * @param graph - The graph to render.
+ * @returns The DOT source.
+ */
+export function toDot(graph: DependencyGraph): string {
+	const lines = ["digraph {"];
+	for (const node of graph.nodes) lines.push(`\tn${node.id} [label="${escapeLabel(describeNode(node))}"];`);
+	for (const { from, to } of graph.edges) lines.push(`\tn${from} -> n${to};`);
+	lines.push("}");
+	return lines.join("\n");
+}
+
+/**
+ * Renders a graph returned by {@linkcode inspect} as a Mermaid flowchart.
+ *
+ * @param graph - The graph to render.
+ * @returns The Mermaid source.
+ */
+export function toMermaid(graph: DependencyGraph): string {
+	const lines = ["graph LR"];
+	for (const node of graph.nodes) lines.push(`\tn${node.id}["${describeNode(node).replaceAll('"', "#quot;")}"]`);
+	for (const { from, to } of graph.edges) lines.push(`\tn${from} --> n${to}`);
+	return lines.join("\n");
+}
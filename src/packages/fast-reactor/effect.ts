@@ -0,0 +1,158 @@
+import type { Cleanup } from "types/utility-types";
+import { scheduleSettle } from "./batch";
+import { hasChangedDependencies, recordDependencies } from "./computed";
+import { CircularDependencyError, type Tracked, track } from "./dependency-tracker";
+import { onDispose } from "./scope";
+import type { Debuggable, DebugInfo, Dependent, Observable, Settleable } from "./types";
+
+export type OnCleanup = (cleanup: Cleanup) => void;
+export type EffectFunction = (onCleanup: OnCleanup) => void;
+
+/**
+ * Represents a side effect that automatically re-runs when anything it reads
+ * changes. Dependencies are tracked dynamically on every run, the same way
+ * {@linkcode Computed} tracks them, so only the reactives read by the latest
+ * run are subscribed to.
+ *
+ * @example
+ *
+ * ```typescript
+ * const name = new State("John");
+ * const effect = new Effect((onCleanup) => {
+ * 	const timeout = setTimeout(() => console.log(name.get()), 1000);
+ * 	onCleanup(() => clearTimeout(timeout));
+ * });
+ *
+ * // Later, to stop the effect and run the last cleanup:
+ * effect.dispose();
+ * ```
+ */
+export class Effect implements Debuggable, Dependent, Settleable {
+	/**
+	 * The distance of this effect from the sources it reads. Effects settle
+	 * after every computed they read.
+	 */
+	public get height(): number {
+		return this.internalHeight;
+	}
+
+	/** Whether the effect has been disposed. */
+	public get isDisposed(): boolean {
+		return this.isDestroyed;
+	}
+
+	/** Stops the effect, running the cleanups registered by its last run. */
+	public dispose(): void {
+		if (this.isDestroyed) return;
+
+		this.isDestroyed = true;
+		this.clearDependencies();
+		this.runCleanups();
+	}
+
+	public getDebugInfo(): DebugInfo {
+		return {
+			dependencies: [...this.dependencies.keys()],
+			dependents: [],
+			kind: "Effect",
+			lastChangedAt: this.lastRunAt,
+			name: undefined,
+			recomputeCount: this.runCount,
+		};
+	}
+
+	/**
+	 * Marks the effect as stale and schedules it to re-run once the change
+	 * has finished propagating.
+	 */
+	public invalidate(): void {
+		if (this.isDestroyed || this.isDirty) return;
+
+		this.isDirty = true;
+		scheduleSettle(this);
+	}
+
+	/**
+	 * Runs the effect immediately, running the cleanups registered by the
+	 * previous run first. If the effect function throws, the reactives it read
+	 * before throwing stay subscribed, so the effect runs again when one of
+	 * them changes.
+	 *
+	 * @throws {unknown} The error thrown by the effect function.
+	 */
+	public run(): void {
+		if (this.isDestroyed) return;
+
+		this.runCleanups();
+		this.clearDependencies();
+
+		let error: unknown;
+		let isErrored = false;
+		let tracked: Tracked<void>;
+		try {
+			tracked = track(this, (): void => {
+				try {
+					this.boundRun();
+				} catch (exception) {
+					if (exception instanceof CircularDependencyError) throw exception;
+					error = exception;
+					isErrored = true;
+				}
+			});
+		} finally {
+			this.isDirty = false;
+			this.runCount += 1;
+			this.lastRunAt = Date.now();
+		}
+
+		this.internalHeight = recordDependencies(this.dependencies, tracked.dependencies);
+		if (isErrored) throw error;
+	}
+
+	/** Re-runs the effect if any of its dependencies changed. */
+	public settle(): void {
+		if (this.isDestroyed || !this.isDirty) return;
+
+		if (hasChangedDependencies(this.dependencies)) this.run();
+		else this.isDirty = false;
+	}
+
+	/**
+	 * Creates an effect and runs it immediately.
+	 *
+	 * @param effectFunction - The function to run. It receives an `onCleanup`
+	 *   function that registers cleanups to run before the next run and when
+	 *   the effect is disposed.
+	 */
+	public constructor(effectFunction: EffectFunction) {
+		this.boundRun = (): void => effectFunction(this.onCleanup);
+		// Registered first so the scope still owns the effect if the first run
+		// throws.
+		onDispose(() => this.dispose());
+		this.run();
+	}
+
+	private clearDependencies(): void {
+		const { dependencies } = this;
+		for (const dependency of dependencies.keys()) dependency.removeDependent(this);
+		dependencies.clear();
+	}
+
+	private runCleanups(): void {
+		const cleanups = this.cleanups.splice(0);
+		for (const cleanup of cleanups) cleanup();
+	}
+
+	private readonly boundRun: () => void;
+	private readonly cleanups = new Array<Cleanup>();
+	private readonly dependencies = new Map<Observable, number>();
+	private internalHeight = 0;
+	private isDestroyed = false;
+	private isDirty = false;
+	private lastRunAt?: number;
+	private readonly onCleanup: OnCleanup = (cleanup): void => {
+		if (this.isDestroyed) cleanup();
+		else this.cleanups.push(cleanup);
+	};
+	private runCount = 0;
+}
@@ -0,0 +1,99 @@
+import type { EqualityFunction } from "./types";
+
+function isPlainObject(value: unknown): value is Record<PropertyKey, unknown> {
+	if (value === null || typeof value !== "object") return false;
+
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+function compareWith(previous: unknown, next: unknown, compareValues: EqualityFunction<unknown>): boolean {
+	if (Array.isArray(previous)) {
+		if (!Array.isArray(next) || previous.length !== next.length) return false;
+		for (let index = 0; index < previous.length; index += 1)
+			if (!compareValues(previous[index], next[index])) return false;
+		return true;
+	}
+
+	if (previous instanceof Map) {
+		if (!(next instanceof Map) || previous.size !== next.size) return false;
+		for (const [key, value] of previous) if (!(next.has(key) && compareValues(value, next.get(key)))) return false;
+		return true;
+	}
+
+	if (previous instanceof Set) {
+		if (!(next instanceof Set) || previous.size !== next.size) return false;
+		for (const value of previous) if (!next.has(value)) return false;
+		return true;
+	}
+
+	if (previous instanceof Date) return next instanceof Date && previous.getTime() === next.getTime();
+
+	if (isPlainObject(previous)) {
+		if (!isPlainObject(next)) return false;
+
+		const keys = Object.keys(previous);
+		if (keys.length !== Object.keys(next).length) return false;
+		for (const key of keys)
+			if (!(Object.hasOwn(next, key) && compareValues(previous[key], next[key]))) return false;
+		return true;
+	}
+
+	return false;
+}
+
+/**
+ * Compares two values with strict equality. This is the default comparator
+ * used by every reactive.
+ *
+ * @param previous - The previous value.
+ * @param next - The next value.
+ * @returns `true` if the values are the same.
+ */
+export function strictEqual<T>(previous: T, next: T): boolean {
+	return previous === next;
+}
+
+/**
+ * Compares two values one level deep. Arrays, `Map`s, `Set`s, `Date`s and
+ * plain objects are equal if their entries are strictly equal.
+ *
+ * @param previous - The previous value.
+ * @param next - The next value.
+ * @returns `true` if the values are shallowly equal.
+ */
+export function shallowEqual<T>(previous: T, next: T): boolean {
+	if (Object.is(previous, next)) return true;
+	if (previous === null || next === null || typeof previous !== "object" || typeof next !== "object") return false;
+	return compareWith(previous, next, Object.is);
+}
+
+/**
+ * Compares two values structurally, recursing into arrays, `Map` values, and
+ * plain objects. `Set`s are compared by membership and `Date`s by time.
+ * Circular references are supported.
+ *
+ * @param previous - The previous value.
+ * @param next - The next value.
+ * @returns `true` if the values are structurally equal.
+ */
+export function deepEqual<T>(previous: T, next: T): boolean {
+	const visited = new Map<object, Set<object>>();
+
+	function compareValues(left: unknown, right: unknown): boolean {
+		if (Object.is(left, right)) return true;
+		if (left === null || right === null || typeof left !== "object" || typeof right !== "object") return false;
+
+		let visitedRights = visited.get(left);
+		if (visitedRights?.has(right)) return true;
+		if (visitedRights === undefined) {
+			visitedRights = new Set();
+			visited.set(left, visitedRights);
+		}
+		visitedRights.add(right);
+
+		return compareWith(left, right, compareValues);
+	}
+
+	return compareValues(previous, next);
+}
@@ -0,0 +1,244 @@
+import type { Cleanup } from "types/utility-types";
+import { batch, getCommittingTransaction, getOpenTransaction } from "./batch";
+import type { Computed } from "./computed";
+import { onDispose } from "./scope";
+import { State } from "./state";
+
+/** A reactive that {@linkcode History} can record and write back to. */
+interface HistorySource<T = unknown> {
+	onChange(callback: (value: T) => void): Cleanup;
+	peek(): T;
+	set(value: T): void;
+}
+
+interface Change {
+	after: unknown;
+	readonly before: unknown;
+	readonly source: HistorySource;
+}
+
+interface Application {
+	readonly sources: Set<HistorySource>;
+	readonly transaction: number | undefined;
+}
+
+interface Step {
+	readonly changes: Array<Change>;
+	readonly transaction: number | undefined;
+}
+
+/**
+ * Options accepted by `History`.
+ */
+export interface HistoryOptions {
+	/**
+	 * The maximum number of steps that can be undone. The oldest steps are
+	 * dropped once it is exceeded. Defaults to 100.
+	 */
+	readonly capacity?: number;
+}
+
+const DEFAULT_CAPACITY = 100;
+
+/**
+ * Records changes to attached `State` and `ReactiveList` instances so they can
+ * be undone and redone. Every change is one step, except that all changes
+ * delivered by the same {@linkcode batch} form a single step.
+ *
+ * @example
+ *
+ * ```typescript
+ * const history = new History();
+ * history.attach(limitState);
+ * history.attach(outputTypeState);
+ *
+ * limitState.set(25);
+ * history.checkpoint("limit");
+ * batch(() => {
+ * 	limitState.set(50);
+ * 	outputTypeState.set(OutputType.Json);
+ * });
+ *
+ * history.undo(); // restores both values changed by the batch
+ * history.undoTo("limit");
+ * ```
+ */
+export class History {
+	/** Whether {@linkcode History.redo} has a step to redo. */
+	public get canRedo(): Computed<boolean> {
+		return this.canRedoComputed;
+	}
+
+	/** Whether {@linkcode History.undo} has a step to undo. */
+	public get canUndo(): Computed<boolean> {
+		return this.canUndoComputed;
+	}
+
+	/**
+	 * Starts recording changes to a reactive.
+	 *
+	 * @template T The type of the reactive's value.
+	 * @param reactive - The reactive to record.
+	 * @returns A function that stops recording the reactive.
+	 */
+	public attach<T>(reactive: HistorySource<T>): Cleanup {
+		const source = reactive as HistorySource;
+		const { detachers } = this;
+		if (detachers.has(source)) return detachers.get(source)!;
+
+		this.lastValues.set(source, source.peek());
+		const stopListening = source.onChange((value): void => this.record(source, value));
+		const detach = (): void => {
+			stopListening();
+			detachers.delete(source);
+			this.lastValues.delete(source);
+		};
+
+		detachers.set(source, detach);
+		return detach;
+	}
+
+	/**
+	 * Labels the current position, so {@linkcode History.undoTo} can return to
+	 * it later. Reusing a label moves it.
+	 *
+	 * @param label - The name of the checkpoint.
+	 */
+	public checkpoint(label: string): void {
+		this.checkpoints.set(label, this.undoStack.at(-1));
+	}
+
+	/** Forgets every recorded step and checkpoint. */
+	public clear(): void {
+		this.undoStack.length = 0;
+		this.redoStack.length = 0;
+		this.checkpoints.clear();
+		this.updateCounts();
+	}
+
+	/** Detaches every reactive. Also called when the enclosing scope is disposed. */
+	public dispose(): void {
+		for (const detach of [...this.detachers.values()]) detach();
+	}
+
+	/**
+	 * Reapplies the most recently undone step.
+	 *
+	 * @returns `true` if a step was redone.
+	 */
+	public redo(): boolean {
+		const step = this.redoStack.pop();
+		if (step === undefined) return false;
+
+		this.apply(step.changes, "after");
+		this.undoStack.push(step);
+		this.updateCounts();
+		return true;
+	}
+
+	/**
+	 * Reverts the most recent step.
+	 *
+	 * @returns `true` if a step was undone.
+	 */
+	public undo(): boolean {
+		const step = this.undoStack.pop();
+		if (step === undefined) return false;
+
+		this.apply(step.changes.toReversed(), "before");
+		this.redoStack.push(step);
+		this.updateCounts();
+		return true;
+	}
+
+	/**
+	 * Undoes every step recorded since the checkpoint was labeled. The undone
+	 * steps can still be redone one at a time.
+	 *
+	 * @param label - The name of the checkpoint.
+	 * @throws {Error} If the checkpoint does not exist or its step has been
+	 *   undone or dropped.
+	 */
+	public undoTo(label: string): void {
+		const { checkpoints, undoStack } = this;
+		if (!checkpoints.has(label)) throw new Error(`Unknown checkpoint: ${label}`);
+
+		const target = checkpoints.get(label);
+		if (target !== undefined && !undoStack.includes(target))
+			throw new Error(`Checkpoint is no longer in the history: ${label}`);
+
+		while (undoStack.length > 0 && undoStack.at(-1) !== target) this.undo();
+	}
+
+	/**
+	 * Creates a new, empty history.
+	 *
+	 * @param options - Options controlling how many steps are kept.
+	 */
+	public constructor(options?: HistoryOptions) {
+		this.capacity = options?.capacity ?? DEFAULT_CAPACITY;
+		this.canRedoComputed = this.redoCount.map((count): boolean => count > 0);
+		this.canUndoComputed = this.undoCount.map((count): boolean => count > 0);
+		onDispose(() => this.dispose());
+	}
+
+	private apply(changes: ReadonlyArray<Change>, side: "after" | "before"): void {
+		batch((): void => {
+			// Inside an outer batch, the writes are only delivered once it
+			// commits, so they are recognized by its transaction.
+			const transaction = getOpenTransaction();
+			let { application } = this;
+			if (application === undefined || application.transaction !== transaction) {
+				application = { sources: new Set(), transaction };
+				this.application = application;
+			}
+
+			const { sources } = application;
+			for (const change of changes) {
+				sources.add(change.source);
+				change.source.set(change[side]);
+			}
+		});
+	}
+
+	private record(source: HistorySource, after: unknown): void {
+		const before = this.lastValues.get(source);
+		this.lastValues.set(source, after);
+
+		const transaction = getCommittingTransaction();
+		const { application } = this;
+		if (application !== undefined && application.transaction === transaction && application.sources.has(source))
+			return;
+
+		const { undoStack } = this;
+		const lastStep = undoStack.at(-1);
+		if (transaction !== undefined && lastStep?.transaction === transaction) {
+			const existing = lastStep.changes.find((change) => change.source === source);
+			if (existing === undefined) lastStep.changes.push({ after, before, source });
+			else existing.after = after;
+			return;
+		}
+
+		undoStack.push({ changes: [{ after, before, source }], transaction });
+		if (undoStack.length > this.capacity) undoStack.shift();
+		this.redoStack.length = 0;
+		this.updateCounts();
+	}
+
+	private updateCounts(): void {
+		this.undoCount.set(this.undoStack.length);
+		this.redoCount.set(this.redoStack.length);
+	}
+
+	private application?: Application;
+	private readonly canRedoComputed: Computed<boolean>;
+	private readonly canUndoComputed: Computed<boolean>;
+	private readonly capacity: number;
+	private readonly checkpoints = new Map<string, Step | undefined>();
+	private readonly detachers = new Map<HistorySource, Cleanup>();
+	private readonly lastValues = new Map<HistorySource, unknown>();
+	private readonly redoCount = new State(0);
+	private readonly redoStack = new Array<Step>();
+	private readonly undoCount = new State(0);
+	private readonly undoStack = new Array<Step>();
+}
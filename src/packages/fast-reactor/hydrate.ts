@@ -1,19 +1,122 @@
 import type { Cleanup } from "types/utility-types";
-import type { Reactive } from "./types";
+import { isReactive } from "./brand";
+import { onDispose } from "./scope";
+import type { ReadonlyReactive, WritableReactive } from "./types";
 
-type BindingValue<T> = Reactive<T> | T;
+type BindingValue<T> = ReadonlyReactive<T> | T;
 type BindingTable<T> = {
 	[K in keyof T]: BindingValue<T[K]>;
 };
 
-function isReactive<T>(value: unknown): value is Reactive<T> {
-	return value !== null && typeof value === "object" && "value" in value;
+/**
+ * Options for a single property bound by {@linkcode hydrate}.
+ *
+ * @template V The type of the property.
+ */
+export interface KeyBindingOptions<V> {
+	/** Converts every value before it is assigned to the property. */
+	readonly transform?: (value: V) => V;
+
+	/**
+	 * Whether assigning the property writes the value back to the bound
+	 * reactive, which must be writable. Defaults to `false`.
+	 */
+	readonly twoWay?: boolean;
+
+	/**
+	 * Checks every value before it is assigned to the property or written back
+	 * to the reactive. Values failing the check are reported and dropped.
+	 */
+	readonly validate?: (value: V) => boolean;
+}
+
+/**
+ * Options accepted by {@linkcode hydrate}.
+ *
+ * @template T The type of the hydrated object.
+ */
+export interface HydrateOptions<T> {
+	/** Options for individual properties. */
+	readonly keys?: { readonly [K in keyof T]?: KeyBindingOptions<T[K]> };
+
+	/**
+	 * Called instead of throwing when a value fails validation or cannot be
+	 * assigned or written back. Without it, the error is thrown by `hydrate`,
+	 * by the assignment, or by the write to the reactive that produced the
+	 * value.
+	 */
+	readonly onError?: (error: unknown) => void;
+}
+
+function isWritable<T>(reactive: ReadonlyReactive<T>): reactive is WritableReactive<T> {
+	return "write" in reactive && typeof reactive.write === "function";
+}
+
+function validate<V>(key: string, value: V, options: KeyBindingOptions<V> | undefined): void {
+	if (options?.validate === undefined || options.validate(value)) return;
+
+	const exception = new Error(`Invalid value for "${key}": ${String(value)}`);
+	exception.name = "BindingError";
+	Error.captureStackTrace(exception, validate);
+	throw exception;
+}
+
+function prepare<V>(key: string, value: V, options: KeyBindingOptions<V> | undefined): V {
+	const transformed = options?.transform === undefined ? value : options.transform(value);
+	validate(key, transformed, options);
+	return transformed;
+}
+
+function bindTwoWay<T extends object, K extends keyof T & string>(
+	object: T,
+	key: K,
+	reactive: ReadonlyReactive<T[K]>,
+	options: KeyBindingOptions<T[K]> | undefined,
+	report: (callback: () => void) => void,
+): Cleanup {
+	if (!isWritable(reactive)) {
+		const exception = new Error(`Cannot bind "${key}" two-way. The reactive is not writable.`);
+		exception.name = "InvalidOperationError";
+		Error.captureStackTrace(exception, bindTwoWay);
+		throw exception;
+	}
+
+	let current = object[key];
+	const descriptor = Object.getOwnPropertyDescriptor(object, key);
+	Object.defineProperty(object, key, {
+		configurable: true,
+		enumerable: descriptor?.enumerable ?? true,
+		get: (): T[K] => current,
+		set: (value: T[K]): void =>
+			report((): void => {
+				validate(key, value, options);
+				reactive.write(value);
+			}),
+	});
+
+	const update = (value: T[K]): void =>
+		report((): void => {
+			current = prepare(key, value, options);
+		});
+	update(reactive.peek());
+	const stopListening = reactive.onChange(update);
+
+	return (): void => {
+		stopListening();
+		Object.defineProperty(object, key, {
+			configurable: true,
+			enumerable: descriptor?.enumerable ?? true,
+			value: current,
+			writable: true,
+		});
+	};
 }
 
 /**
  * Binds properties of an object to reactive values (State or Computed) or
  * constants. Properties bound to reactive values will update automatically when
- * the reactive value changes.
+ * the reactive value changes. Properties bound two-way also write assignments
+ * back to their reactive.
  *
  * @example
  *
@@ -28,8 +131,15 @@ function isReactive<T>(value: unknown): value is Reactive<T> {
  * 	constant: "This is a constant value", // non-reactive, just sets the value
  * 	fullName: fullNameComputed,
  * 	name: nameState,
+ * }, {
+ * 	keys: {
+ * 		age: { twoWay: true, validate: (age) => age >= 0 },
+ * 		name: { transform: (name) => name.trim() },
+ * 	},
  * });
  *
+ * person.age = 31; // writes ageState
+ *
  * // Later, to clean up:
  * cleanup();
  * ```
@@ -37,26 +147,58 @@ function isReactive<T>(value: unknown): value is Reactive<T> {
  * @template T
  * @param object - The object to hydrate with reactive bindings.
  * @param bindings - An object mapping property names to their binding sources.
- * @returns A dispose function that can be called to remove all bindings.
+ * @param options - Per-property options and how to report binding errors.
+ * @returns A dispose function that can be called to remove all bindings. The
+ *   bindings are also removed when the enclosing scope is disposed.
+ * @throws {InvalidOperationError} If a property is bound two-way to a reactive
+ *   that is not writable.
  */
-export function hydrate<T extends object>(object: T, bindings: BindingTable<T>): Cleanup {
+export function hydrate<T extends object>(object: T, bindings: BindingTable<T>, options?: HydrateOptions<T>): Cleanup {
 	const cleanups = new Array<Cleanup>();
 	let length = 0;
 
-	for (const key in bindings) {
-		if (Object.hasOwn(bindings, key)) {
-			const binding = bindings[key];
-			if (binding && isReactive(binding)) {
-				object[key as keyof T] = binding.peek() as T[keyof T];
-				cleanups[length] = binding.onChange((newValue): void => {
-					object[key as keyof T] = newValue as T[keyof T];
-				});
-				length += 1;
-			} else object[key as keyof T] = binding as T[keyof T];
+	const onError = options?.onError;
+	const report = (callback: () => void): void => {
+		if (onError === undefined) callback();
+		else
+			try {
+				callback();
+			} catch (exception) {
+				onError(exception);
+			}
+	};
+
+	const dispose = (): void => {
+		for (const cleanup of cleanups.splice(0)) cleanup();
+	};
+
+	try {
+		for (const key in bindings) {
+			if (Object.hasOwn(bindings, key)) {
+				const binding = bindings[key];
+				const keyOptions = options?.keys?.[key];
+				const assign = (value: T[typeof key]): void =>
+					report((): void => {
+						object[key] = prepare(key, value, keyOptions);
+					});
+
+				if (isReactive(binding)) {
+					const reactive = binding as ReadonlyReactive<T[typeof key]>;
+					if (keyOptions?.twoWay) cleanups[length] = bindTwoWay(object, key, reactive, keyOptions, report);
+					else {
+						assign(reactive.peek());
+						cleanups[length] = reactive.onChange(assign);
+					}
+
+					length += 1;
+				} else assign(binding as T[typeof key]);
+			}
 		}
+	} catch (exception) {
+		dispose();
+		throw exception;
 	}
 
-	return (): void => {
-		for (const cleanup of cleanups) cleanup();
-	};
+	onDispose(dispose);
+	return dispose;
 }
@@ -1,7 +1,68 @@
+export { batch, getCommittingTransaction, getOpenTransaction, isBatching } from "./batch";
+export { isReactive, reactiveBrand } from "./brand";
 export { Computed } from "./computed";
 export * as DependencyTracker from "./dependency-tracker";
-export { hydrate } from "./hydrate";
-export { Observer } from "./observer";
-export { ReactiveList } from "./reactive-list";
+export { CircularDependencyError, untrack } from "./dependency-tracker";
+export { Effect, type EffectFunction, type OnCleanup } from "./effect";
+export { deepEqual, shallowEqual, strictEqual } from "./equality";
+export { History, type HistoryOptions } from "./history";
+export { type HydrateOptions, hydrate, type KeyBindingOptions } from "./hydrate";
+export {
+	type EventSource,
+	type ExternalState,
+	type FromAsyncIterableOptions,
+	fromAsyncIterable,
+	fromEvent,
+	toAsyncIterable,
+} from "./interop";
+export { Observer, type ObserverOptions } from "./observer";
+export {
+	combine,
+	distinctUntilChanged,
+	type PreviousValue,
+	previous,
+	type ReactivesOf,
+	select,
+	switchMap,
+} from "./operators";
+export { PersistedState, type PersistedStateOptions } from "./persisted-state";
+export { DerivedList, GroupedItems, ReactiveList, type ReactiveListOptions } from "./reactive-list";
+export { ReactiveMap } from "./reactive-map";
+export { ReactiveSet, type ReactiveSetOptions } from "./reactive-set";
+export { Resource, type ResourceFetcher } from "./resource";
+export {
+	getDefaultScheduler,
+	immediateScheduler,
+	ManualScheduler,
+	microtaskScheduler,
+	type Scheduler,
+	setDefaultScheduler,
+	syncScheduler,
+} from "./scheduler";
+export { createScope, hasScope, onDispose } from "./scope";
+export {
+	type Codec,
+	dateCodec,
+	defaultCodecs,
+	mapCodec,
+	optionCodec,
+	restore,
+	type SnapshotOptions,
+	type SnapshotRegistry,
+	setCodec,
+	snapshot,
+} from "./serialization";
 export { State } from "./state";
+export { createStore, type PathValue, type SetStore, type Store, type StorePath, unwrap } from "./store";
+export {
+	type Clock,
+	debounced,
+	delayed,
+	ManualClock,
+	systemClock,
+	type TimedReactive,
+	type TimingOptions,
+	throttled,
+} from "./timing";
 export * from "./types";
+export { asReadonly, Lens, lens } from "./views";
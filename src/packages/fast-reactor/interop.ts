@@ -0,0 +1,221 @@
+import type { Cleanup } from "types/utility-types";
+import { onDispose } from "./scope";
+import { State } from "./state";
+import type { ReadonlyReactive } from "./types";
+import { asReadonly } from "./views";
+
+/**
+ * An object that emits named events, such as a Node `EventEmitter`, a chokidar
+ * watcher or a readline interface.
+ *
+ * @template T The type of the first argument of the events.
+ */
+export interface EventSource<T> {
+	off(name: string, listener: (value: T) => void): unknown;
+	on(name: string, listener: (value: T) => void): unknown;
+}
+
+/**
+ * Options accepted by {@linkcode fromAsyncIterable}.
+ */
+export interface FromAsyncIterableOptions {
+	/**
+	 * Called when the iterable throws, after the error has been stored in
+	 * {@linkcode ExternalState.error}. Iteration stops afterwards.
+	 */
+	readonly onError?: (error: unknown) => void;
+}
+
+/**
+ * Iterates over the values of a reactive, starting with its current value and
+ * followed by every distinct value it changes to. Values arriving faster than
+ * they are consumed are buffered. Listening starts when iteration starts and
+ * stops when the loop exits.
+ *
+ * @example
+ *
+ * ```typescript
+ * for await (const cities of toAsyncIterable(rankedCities)) {
+ * 	await writer.write(`${JSON.stringify(cities)}\n`);
+ * }
+ * ```
+ *
+ * @template T The type of the values.
+ * @param reactive - The reactive to iterate over.
+ * @returns An async iterable that never finishes by itself.
+ */
+export async function* toAsyncIterable<T>(reactive: ReadonlyReactive<T>): AsyncGenerator<T, void, undefined> {
+	const queue = new Array<T>();
+	let lastValue = reactive.peek();
+	let wake: (() => void) | undefined;
+
+	const stopListening = reactive.onChange((value): void => {
+		if (Object.is(value, lastValue)) return;
+
+		lastValue = value;
+		queue.push(lastValue);
+		wake?.();
+	});
+
+	try {
+		yield lastValue;
+		for (;;) {
+			while (queue.length > 0) yield queue.shift() as T;
+			await new Promise<void>((resolve): void => {
+				wake = resolve;
+			});
+			wake = undefined;
+		}
+	} finally {
+		stopListening();
+	}
+}
+
+/**
+ * A state fed by an external source, such as an event emitter or an async
+ * iterable. Every value from the source notifies, even if it equals the
+ * previous one.
+ *
+ * @template T The type of the value.
+ */
+export class ExternalState<T> extends State<T> {
+	/**
+	 * The error that stopped the source, or `undefined` while it is still
+	 * delivering values.
+	 */
+	public readonly error: ReadonlyReactive<unknown>;
+
+	/** Whether the state has stopped following its source. */
+	public get isDisposed(): boolean {
+		return this.isDestroyed;
+	}
+
+	/**
+	 * Stops following the source. Also called when the enclosing scope is
+	 * disposed.
+	 */
+	public dispose(): void {
+		if (this.isDestroyed) return;
+
+		this.isDestroyed = true;
+		this.unsubscribe();
+	}
+
+	/**
+	 * Creates a new state and subscribes it to its source.
+	 *
+	 * @param initialValue - The value of the state until the source produces
+	 *   one.
+	 * @param subscribe - Starts delivering the values of the source to the
+	 *   first specified function, and the error that stops it to the second,
+	 *   and returns a function that stops it.
+	 */
+	public constructor(
+		initialValue: T,
+		subscribe: (receive: (value: T) => void, fail: (error: unknown) => void) => Cleanup,
+	) {
+		super(initialValue, { equals: () => false });
+		this.error = asReadonly(this.errorState);
+		this.unsubscribe = subscribe(
+			(value): void => {
+				if (!this.isDestroyed) this.set(value);
+			},
+			(error): void => {
+				if (!this.isDestroyed) this.errorState.set(error);
+			},
+		);
+		onDispose(() => this.dispose());
+	}
+
+	private readonly errorState = new State<unknown>(undefined);
+	private isDestroyed = false;
+	private readonly unsubscribe: Cleanup;
+}
+
+/**
+ * Creates a state that takes every value produced by an async iterable, such
+ * as a Node stream or a readline interface. Iteration stops when the iterable
+ * finishes or the state is disposed.
+ *
+ * @example
+ *
+ * ```typescript
+ * const lineState = fromAsyncIterable(readline.createInterface({ input: process.stdin }), "");
+ *
+ * // Later, to stop reading:
+ * lineState.dispose();
+ * ```
+ *
+ * @template T The type of the values.
+ * @param iterable - The iterable to consume.
+ * @param initialValue - The value of the state until the first value arrives.
+ * @param options - How to report errors thrown by the iterable.
+ * @returns The state. An error thrown by the iterable is stored in its
+ *   `error` reactive.
+ */
+export function fromAsyncIterable<T>(
+	iterable: AsyncIterable<T>,
+	initialValue: T,
+	options?: FromAsyncIterableOptions,
+): ExternalState<T> {
+	return new ExternalState(initialValue, (receive, fail): Cleanup => {
+		const iterator = iterable[Symbol.asyncIterator]();
+		let isStopped = false;
+
+		const consumeAsync = async (): Promise<void> => {
+			for (;;) {
+				const result = await iterator.next();
+				if (isStopped || result.done) return;
+				receive(result.value);
+			}
+		};
+
+		consumeAsync().catch((exception: unknown): void => {
+			fail(exception);
+			options?.onError?.(exception);
+		});
+		return (): void => {
+			isStopped = true;
+			void iterator.return?.();
+		};
+	});
+}
+
+/**
+ * Creates a state that takes the first argument of every event with the
+ * specified name. The listener is removed when the state is disposed.
+ *
+ * @example
+ *
+ * ```typescript
+ * const changedPath = fromEvent<string>(watch(applicationPaths.config), "change");
+ * Observer.watch(debounced(changedPath, 250), (path) => path && void reloadAsync(path));
+ * ```
+ *
+ * @template T The type of the first argument of the events.
+ * @param emitter - The object emitting the events.
+ * @param name - The name of the events.
+ * @returns The state, which is `undefined` until the first event.
+ */
+export function fromEvent<T>(emitter: EventSource<T>, name: string): ExternalState<T | undefined>;
+
+/**
+ * Creates a state that takes the first argument of every event with the
+ * specified name. The listener is removed when the state is disposed.
+ *
+ * @template T The type of the first argument of the events.
+ * @param emitter - The object emitting the events.
+ * @param name - The name of the events.
+ * @param initialValue - The value of the state until the first event.
+ * @returns The state.
+ */
+export function fromEvent<T>(emitter: EventSource<T>, name: string, initialValue: T): ExternalState<T>;
+export function fromEvent<T>(emitter: EventSource<T>, name: string, initialValue?: T): ExternalState<T | undefined> {
+	return new ExternalState<T | undefined>(initialValue, (receive): Cleanup => {
+		const listener = (value: T): void => receive(value);
+		emitter.on(name, listener);
+		return (): void => {
+			emitter.off(name, listener);
+		};
+	});
+}
@@ -0,0 +1,79 @@
+import { getCurrentDependent, trackDependency } from "./dependency-tracker";
+import type { Dependent, Observable } from "./types";
+
+class KeyObservable implements Observable {
+	public get version(): number {
+		return this.internalVersion;
+	}
+
+	public addDependent(dependent: Dependent): void {
+		this.dependents.add(dependent);
+	}
+
+	public invalidate(): void {
+		this.internalVersion += 1;
+		for (const dependent of [...this.dependents]) dependent.invalidate();
+	}
+
+	public removeDependent(dependent: Dependent): void {
+		const { dependents } = this;
+		dependents.delete(dependent);
+		if (dependents.size === 0) this.onUnused();
+	}
+
+	public constructor(private readonly onUnused: () => void) {}
+
+	private readonly dependents = new Set<Dependent>();
+	private internalVersion = 0;
+}
+
+/**
+ * Tracks dependencies on individual keys of a keyed collection, so that
+ * dependents reading one key are only invalidated when that key changes.
+ * Observables for keys are created on first read and dropped once nothing
+ * depends on them.
+ *
+ * @template K The type of the keys.
+ */
+export class KeyedObservables<K> {
+	/**
+	 * Invalidates the dependents of the specified key.
+	 *
+	 * @param key - The key that changed.
+	 */
+	public invalidate(key: K): void {
+		this.observables.get(key)?.invalidate();
+	}
+
+	/**
+	 * Gets every key that currently has dependents.
+	 *
+	 * @returns An iterator over the tracked keys.
+	 */
+	public keys(): MapIterator<K> {
+		return this.observables.keys();
+	}
+
+	/**
+	 * Tracks that the current computation depends on the specified key.
+	 *
+	 * @param key - The key being read.
+	 */
+	public track(key: K): void {
+		if (getCurrentDependent() === undefined) return;
+
+		const { observables } = this;
+		let observable = observables.get(key);
+		if (observable === undefined) {
+			const created = new KeyObservable(() => {
+				if (observables.get(key) === created) observables.delete(key);
+			});
+			observables.set(key, created);
+			observable = created;
+		}
+
+		trackDependency(observable);
+	}
+
+	private readonly observables = new Map<K, KeyObservable>();
+}
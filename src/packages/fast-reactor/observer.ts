@@ -1,5 +1,19 @@
 import type { Cleanup } from "types/utility-types";
-import type { Reactive } from "./types";
+import { getDefaultScheduler, type Scheduler } from "./scheduler";
+import { onDispose } from "./scope";
+import type { ReadonlyReactive } from "./types";
+
+/**
+ * Options accepted by {@linkcode Observer.watch}.
+ */
+export interface ObserverOptions {
+	/**
+	 * The scheduler that decides when changes are delivered. Changes made
+	 * before a delivery runs are coalesced into it. Defaults to the scheduler
+	 * set with `setDefaultScheduler`.
+	 */
+	readonly scheduler?: Scheduler;
+}
 
 /**
  * Represents an observer that can subscribe to changes in reactive state.
@@ -11,18 +25,40 @@ export class Observer {
 	 * Creates an observer that reacts to changes in the specified reactive
 	 * value.
 	 *
+	 * @example
+	 *
+	 * ```typescript
+	 * Observer.watch(rankedCities, (cities) => renderTable(cities), { scheduler: microtaskScheduler });
+	 * ```
+	 *
 	 * @param reactive - The reactive value to observe.
 	 * @param callback - The function to call when the reactive value changes.
+	 * @param options - The scheduler delivering the changes.
 	 * @returns An instance of `Observer` that will call the callback with the
 	 *   current value of the reactive when it changes.
 	 */
-	public static watch<T>(reactive: Reactive<T>, callback: (value: T) => void): Observer {
+	public static watch<T>(
+		reactive: ReadonlyReactive<T>,
+		callback: (value: T) => void,
+		options?: ObserverOptions,
+	): Observer {
 		callback(reactive.peek());
 		const observer = new Observer(() => {
 			callback(reactive.peek());
 		});
 
-		observer.cleanup = reactive.onChange(() => observer.callback?.());
+		const scheduler = options?.scheduler ?? getDefaultScheduler();
+		let isScheduled = false;
+		observer.cleanup = reactive.onChange((): void => {
+			if (isScheduled) return;
+
+			isScheduled = true;
+			scheduler.schedule((): void => {
+				isScheduled = false;
+				observer.callback?.();
+			});
+		});
+		onDispose(() => observer.dispose());
 		return observer;
 	}
 
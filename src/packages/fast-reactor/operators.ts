@@ -0,0 +1,247 @@
+import type { Cleanup } from "types/utility-types";
+import { reactiveBrand } from "./brand";
+import { Computed } from "./computed";
+import { untrack } from "./dependency-tracker";
+import { createScope, onDispose } from "./scope";
+import { State } from "./state";
+import type { Dependent, EqualityFunction, ReactiveOptions, ReadonlyReactive } from "./types";
+
+/**
+ * Maps a tuple of values to the tuple of reactives holding them.
+ *
+ * @template V The tuple of values.
+ */
+export type ReactivesOf<V extends ReadonlyArray<unknown>> = {
+	readonly [K in keyof V]: ReadonlyReactive<V[K]>;
+};
+
+function getAll<const V extends ReadonlyArray<unknown>>(reactives: ReactivesOf<V>): V;
+function getAll(reactives: ReadonlyArray<ReadonlyReactive<unknown>>): ReadonlyArray<unknown> {
+	return reactives.map((reactive) => reactive.get());
+}
+
+class SwitchedComputed<R> extends Computed<R> {
+	public override dispose(): void {
+		if (this.isDisposed) return;
+
+		super.dispose();
+		this.disposeSources();
+	}
+
+	public constructor(
+		computeFunction: () => R,
+		private readonly disposeSources: Cleanup,
+	) {
+		super(computeFunction);
+	}
+}
+
+/**
+ * Creates a computed value from the values of several reactives. The combiner
+ * receives the values in the order the reactives are listed.
+ *
+ * @example
+ *
+ * ```typescript
+ * const summary = combine([cityState, limitState], (city, limit) => `${limit} cities near ${city}`);
+ * ```
+ *
+ * @template V The tuple of the reactives' values.
+ * @template T The type of the combined value.
+ * @param reactives - The reactives to read.
+ * @param combiner - The function deriving the value from theirs.
+ * @param options - Options controlling how changes are detected.
+ * @returns A new computed value.
+ */
+export function combine<const V extends ReadonlyArray<unknown>, T>(
+	reactives: ReactivesOf<V>,
+	combiner: (...values: V) => T,
+	options?: ReactiveOptions<T>,
+): Computed<T> {
+	return new Computed<T>((): T => combiner(...getAll(reactives)), options);
+}
+
+/**
+ * Creates a computed value following a single property of a reactive object.
+ * Dependents are only notified when that property changes.
+ *
+ * @example
+ *
+ * ```typescript
+ * const limit = select(settingsState, "limit");
+ * ```
+ *
+ * @template T The type of the object.
+ * @template K The key of the property.
+ * @param reactive - The reactive object.
+ * @param key - The property to follow.
+ * @param options - Options controlling how changes are detected.
+ * @returns A new computed value.
+ */
+export function select<T, K extends keyof T>(
+	reactive: ReadonlyReactive<T>,
+	key: K,
+	options?: ReactiveOptions<T[K]>,
+): Computed<T[K]> {
+	return new Computed<T[K]>((): T[K] => reactive.get()[key], options);
+}
+
+/**
+ * Creates a computed value following the reactive chosen by the projection.
+ * The projection only runs when the source changes, and the computed then
+ * stops following the previously chosen reactive. Everything the projection
+ * created, such as a `Computed` it returned, is disposed when it runs again,
+ * when the returned computed is disposed and when the enclosing scope is
+ * disposed.
+ *
+ * @example
+ *
+ * ```typescript
+ * const rankedCities = switchMap(outputTypeState, (outputType) => rankingsByOutputType[outputType]);
+ * ```
+ *
+ * @template T The type of the source value.
+ * @template R The type of the chosen reactive's value.
+ * @param reactive - The source.
+ * @param project - Chooses the reactive to follow for a source value.
+ * @returns A new computed value.
+ */
+export function switchMap<T, R>(
+	reactive: ReadonlyReactive<T>,
+	project: (value: T) => ReadonlyReactive<R>,
+): Computed<R> {
+	return createScope((dispose): Computed<R> => {
+		let disposeProjection: Cleanup | undefined;
+		const inner = new Computed<ReadonlyReactive<R>>((): ReadonlyReactive<R> => {
+			const value = reactive.get();
+			disposeProjection?.();
+			return untrack(() =>
+				createScope((disposeScope): ReadonlyReactive<R> => {
+					disposeProjection = disposeScope;
+					return project(value);
+				}),
+			);
+		});
+		onDispose(() => disposeProjection?.());
+
+		return new SwitchedComputed<R>((): R => inner.get().get(), dispose);
+	});
+}
+
+/**
+ * A read-only reactive holding the value another reactive had before its
+ * latest change. See {@linkcode previous}.
+ *
+ * @template T The type of the value.
+ */
+export class PreviousValue<T> implements ReadonlyReactive<T | undefined> {
+	public readonly [reactiveBrand] = true;
+
+	public get value(): T | undefined {
+		return this.peek();
+	}
+
+	/** Whether the reactive has stopped following its source. */
+	public get isDisposed(): boolean {
+		return this.isDestroyed;
+	}
+
+	public get version(): number {
+		return this.valueState.version;
+	}
+
+	public addDependent(dependent: Dependent): void {
+		this.valueState.addDependent(dependent);
+	}
+
+	/**
+	 * Stops following the source. Also called when the enclosing scope is
+	 * disposed.
+	 */
+	public dispose(): void {
+		if (this.isDestroyed) return;
+
+		this.isDestroyed = true;
+		this.stopListening();
+	}
+
+	public get(): T | undefined {
+		return this.valueState.get();
+	}
+
+	public notifyDependents(): void {
+		this.valueState.notifyDependents();
+	}
+
+	public onChange(callback: (value: T | undefined) => void): Cleanup {
+		return this.valueState.onChange(callback);
+	}
+
+	public peek(): T | undefined {
+		return this.valueState.peek();
+	}
+
+	public read(): T | undefined {
+		return this.get();
+	}
+
+	public removeDependent(dependent: Dependent): void {
+		this.valueState.removeDependent(dependent);
+	}
+
+	public constructor(source: ReadonlyReactive<T>) {
+		let lastValue = source.peek();
+		this.stopListening = source.onChange((value): void => {
+			this.valueState.set(lastValue);
+			lastValue = value;
+		});
+		onDispose(() => this.dispose());
+	}
+
+	private isDestroyed = false;
+	private readonly stopListening: Cleanup;
+	private readonly valueState = new State<T | undefined>(undefined);
+}
+
+/**
+ * Creates a reactive holding the value a reactive had before its latest
+ * change, or `undefined` until it first changes. Changes delivered together by
+ * a batch count as a single change.
+ *
+ * @example
+ *
+ * ```typescript
+ * const previousLimit = previous(limitState);
+ * Observer.watch(limitState, (limit) => console.log(`${previousLimit.peek()} -> ${limit}`));
+ *
+ * // Later, to stop following limitState:
+ * previousLimit.dispose();
+ * ```
+ *
+ * @template T The type of the value.
+ * @param reactive - The source.
+ * @returns A read-only reactive that follows the source until it is disposed
+ *   or the enclosing scope is disposed.
+ */
+export function previous<T>(reactive: ReadonlyReactive<T>): PreviousValue<T> {
+	return new PreviousValue(reactive);
+}
+
+/**
+ * Creates a computed value following a reactive, but only notifying
+ * dependents when the comparator reports a change.
+ *
+ * @example
+ *
+ * ```typescript
+ * const weights = distinctUntilChanged(weightsState, shallowEqual);
+ * ```
+ *
+ * @template T The type of the value.
+ * @param reactive - The source.
+ * @param equals - Decides whether a new value differs from the previous one.
+ * @returns A new computed value.
+ */
+export function distinctUntilChanged<T>(reactive: ReadonlyReactive<T>, equals: EqualityFunction<T>): Computed<T> {
+	return new Computed<T>((): T => reactive.get(), { equals });
+}
@@ -0,0 +1,263 @@
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { type FSWatcher, watch } from "chokidar";
+import {
+	parseINI,
+	parseJSON,
+	parseJSON5,
+	parseJSONC,
+	parseTOML,
+	parseYAML,
+	stringifyINI,
+	stringifyJSON,
+	stringifyJSON5,
+	stringifyJSONC,
+	stringifyTOML,
+	stringifyYAML,
+} from "confbox";
+import FileType from "meta/file-type";
+import type { Cleanup } from "types/utility-types";
+import { applicationPaths } from "utilities/application-constants";
+import type { z as zod } from "zod/v4";
+import { fromError } from "zod-validation-error/v4";
+import { onDispose } from "./scope";
+import { State } from "./state";
+import type { ReactiveOptions, ReadonlyReactive } from "./types";
+import { asReadonly } from "./views";
+
+interface FileFormat {
+	parse(text: string): unknown;
+	stringify(value: unknown): string;
+}
+
+/**
+ * Restores the numbers of a parsed INI file. INI has no types, so every value
+ * other than a boolean is read back as a string, and a string that reads as a
+ * number in canonical form is taken to be one.
+ *
+ * @param value - A value produced by `parseINI`.
+ * @returns The value with numeric strings converted to numbers.
+ */
+function coerceIniValue(value: unknown): unknown {
+	if (typeof value === "string") {
+		const number = Number(value);
+		return String(number) === value ? number : value;
+	}
+
+	if (Array.isArray(value)) return value.map(coerceIniValue);
+	if (value !== null && typeof value === "object")
+		return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, coerceIniValue(entry)]));
+	return value;
+}
+
+const FileFormats: Record<FileType, FileFormat> = {
+	[FileType.Ini]: {
+		parse: (text) => coerceIniValue(parseINI(text)),
+		stringify: (value) => stringifyINI(value as Record<string, unknown>),
+	},
+	[FileType.Json]: { parse: parseJSON, stringify: (value) => stringifyJSON(value, { indent: 4 }) },
+	[FileType.Json5]: { parse: parseJSON5, stringify: (value) => stringifyJSON5(value, { indent: 4, quote: '"' }) },
+	[FileType.JsonC]: { parse: parseJSONC, stringify: (value) => stringifyJSONC(value, { indent: 4 }) },
+	[FileType.Toml]: { parse: parseTOML, stringify: (value) => stringifyTOML(value as Record<string, unknown>) },
+	[FileType.Yaml]: { parse: parseYAML, stringify: (value) => stringifyYAML(value, { indent: 4 }) },
+};
+
+const DEFAULT_DEBOUNCE_MILLISECONDS = 250;
+
+/**
+ * Options accepted by `PersistedState`.
+ *
+ * @template T The type of the value stored in the state.
+ */
+export interface PersistedStateOptions<T> extends ReactiveOptions<T> {
+	/** How long to wait after the last change before writing. Defaults to 250. */
+	readonly debounceMilliseconds?: number;
+
+	/** The directory holding the file. Defaults to `applicationPaths.config`. */
+	readonly directory?: string;
+
+	/**
+	 * The format of the file. Defaults to {@linkcode FileType.Json}. INI files
+	 * can only hold objects of strings, numbers and booleans.
+	 */
+	readonly fileType?: FileType;
+
+	/**
+	 * Called when writing the file or loading an external edit fails, after
+	 * the failure has been stored in {@linkcode PersistedState.error}.
+	 */
+	readonly onError?: (error: unknown) => void;
+
+	/** The schema the loaded value must satisfy. */
+	readonly schema?: zod.ZodType<T>;
+
+	/**
+	 * Whether to watch the file and load edits made by other processes into
+	 * the state. Defaults to `false`.
+	 */
+	readonly watch?: boolean;
+}
+
+/**
+ * Represents a reactive state whose value is loaded from and saved to a file
+ * in the application's config directory. The file is read when the state is
+ * created, falling back to the default value when it does not exist, and
+ * changes are written back after a debounce.
+ *
+ * @example
+ *
+ * ```typescript
+ * const settingsState = new PersistedState<PromptSettings>("settings", defaultSettings, {
+ * 	fileType: FileType.Toml,
+ * 	schema: isPromptSettings,
+ * 	watch: true,
+ * });
+ * ```
+ *
+ * @template T The type of the value stored in the state.
+ */
+export class PersistedState<T> extends State<T> {
+	/**
+	 * The error thrown by the latest write or external reload, or `undefined`
+	 * if it succeeded.
+	 */
+	public readonly error: ReadonlyReactive<unknown>;
+
+	/** The absolute path of the file backing the state. */
+	public get filePath(): string {
+		return this.internalFilePath;
+	}
+
+	/**
+	 * Stops watching the file and writes any change still waiting for the
+	 * debounce. Also called when the enclosing scope is disposed.
+	 */
+	public dispose(): void {
+		if (this.isDisposed) return;
+
+		this.isDisposed = true;
+		this.stopListening();
+		void this.watcher?.close();
+		if (this.saveTimer !== undefined) void this.flushAsync();
+	}
+
+	/**
+	 * Writes the current value immediately instead of waiting for the
+	 * debounce.
+	 *
+	 * @returns A promise that resolves once the file has been written.
+	 */
+	public async flushAsync(): Promise<void> {
+		clearTimeout(this.saveTimer);
+		this.saveTimer = undefined;
+
+		const text = this.format.stringify(this.peek());
+		this.lastText = text;
+		try {
+			await mkdir(path.dirname(this.internalFilePath), { recursive: true });
+			await writeFile(this.internalFilePath, text);
+			this.errorState.set(undefined);
+		} catch (exception) {
+			this.reportError(exception);
+		}
+	}
+
+	/**
+	 * Loads the file into the state, without writing it back. Does nothing if
+	 * the file has not changed since it was last read or written.
+	 *
+	 * @returns A promise that resolves once the file has been loaded.
+	 * @throws {ValidationError} If the file does not match the schema.
+	 */
+	public async reloadAsync(): Promise<void> {
+		const text = await readFile(this.internalFilePath, "utf8");
+		if (text === this.lastText) return;
+
+		const value = this.parse(text);
+		this.lastText = text;
+		this.isLoading = true;
+		try {
+			this.set(value);
+		} finally {
+			this.isLoading = false;
+		}
+	}
+
+	/**
+	 * Creates a new persisted state.
+	 *
+	 * @param name - The name of the file, without its extension.
+	 * @param defaultValue - The value used when the file does not exist.
+	 * @param options - Where and how the value is stored.
+	 * @throws {ValidationError} If the file does not match the schema.
+	 */
+	public constructor(name: string, defaultValue: T, options?: PersistedStateOptions<T>) {
+		super(defaultValue, options);
+
+		const fileType = options?.fileType ?? FileType.Json;
+		this.format = FileFormats[fileType];
+		this.internalFilePath = path.join(options?.directory ?? applicationPaths.config, `${name}.${fileType}`);
+		this.debounceMilliseconds = options?.debounceMilliseconds ?? DEFAULT_DEBOUNCE_MILLISECONDS;
+		this.schema = options?.schema;
+		this.onError = options?.onError;
+		this.error = asReadonly(this.errorState);
+
+		if (existsSync(this.internalFilePath)) {
+			const text = readFileSync(this.internalFilePath, "utf8");
+			this.restore(this.parse(text));
+			this.lastText = text;
+		}
+
+		this.stopListening = this.onChange((): void => {
+			if (!this.isLoading) this.scheduleSave();
+		});
+
+		if (options?.watch)
+			this.watcher = watch(this.internalFilePath, { ignoreInitial: true }).on("all", (event): void => {
+				if (event !== "add" && event !== "change") return;
+
+				this.reloadAsync().then(
+					(): void => this.errorState.set(undefined),
+					(exception: unknown): void => this.reportError(exception),
+				);
+			});
+
+		onDispose(() => this.dispose());
+	}
+
+	private parse(text: string): T {
+		const value = this.format.parse(text);
+		const { schema } = this;
+		if (schema === undefined) return value as T;
+
+		const result = schema.safeParse(value);
+		if (!result.success) throw fromError(result.error, { prefix: `Invalid ${this.internalFilePath}` });
+		return result.data;
+	}
+
+	private reportError(exception: unknown): void {
+		this.errorState.set(exception);
+		this.onError?.(exception);
+	}
+
+	private scheduleSave(): void {
+		if (this.isDisposed) return;
+
+		clearTimeout(this.saveTimer);
+		this.saveTimer = setTimeout((): void => void this.flushAsync(), this.debounceMilliseconds);
+	}
+
+	private readonly debounceMilliseconds: number;
+	private readonly errorState = new State<unknown>(undefined);
+	private readonly format: FileFormat;
+	private readonly internalFilePath: string;
+	private isDisposed = false;
+	private isLoading = false;
+	private lastText?: string;
+	private readonly onError?: (error: unknown) => void;
+	private saveTimer?: ReturnType<typeof setTimeout>;
+	private readonly schema?: zod.ZodType<T>;
+	private readonly stopListening: Cleanup;
+	private readonly watcher?: FSWatcher;
+}
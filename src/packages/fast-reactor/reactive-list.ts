@@ -1,7 +1,20 @@
 import type { AnyArray, Cleanup } from "types/utility-types";
+import { isBatching, propagate, recordWrite } from "./batch";
+import { reactiveBrand } from "./brand";
 import { Computed } from "./computed";
 import { trackDependency } from "./dependency-tracker";
-import type { ArrayPredicate, Dependent, Reactive } from "./types";
+import { strictEqual } from "./equality";
+import { ReactiveMap } from "./reactive-map";
+import { onDispose } from "./scope";
+import type {
+	ArrayPredicate,
+	Debuggable,
+	DebugInfo,
+	Dependent,
+	EqualityFunction,
+	Reactive,
+	Transactional,
+} from "./types";
 
 function notifyDependents(dependents: Set<Dependent>): void {
 	for (const dependent of [...dependents]) dependent.invalidate();
@@ -13,6 +26,23 @@ function notifyItemRemoved<T>(removeListeners: Set<(value: T, index: number) =>
 	for (const listener of removeListeners) listener(value, index);
 }
 
+function notifyItemMoved<T>(
+	moveListeners: Set<(value: T, fromIndex: number, toIndex: number) => void>,
+	value: T,
+	fromIndex: number,
+	toIndex: number,
+): void {
+	for (const listener of moveListeners) listener(value, fromIndex, toIndex);
+}
+function notifyItemUpdated<T>(
+	updateListeners: Set<(value: T, index: number, previousValue: T) => void>,
+	value: T,
+	index: number,
+	previousValue: T,
+): void {
+	for (const listener of updateListeners) listener(value, index, previousValue);
+}
+
 function safeNotifyItemAdded<T>(addListeners: Set<(value: T, index: number) => void>, value: T, index: number): void {
 	if (addListeners.size > 0) notifyItemAdded(addListeners, value, index);
 }
@@ -33,8 +63,45 @@ function onItemsChanged<T>(
 	listeners: Set<(value: Array<T>) => void>,
 	items: Array<T>,
 ): void {
-	if (dependents.size > 0) notifyDependents(dependents);
-	if (listeners.size > 0) for (const listener of listeners) listener(items);
+	propagate((): void => {
+		if (dependents.size > 0) notifyDependents(dependents);
+		if (listeners.size > 0) {
+			const copy = [...items];
+			for (const listener of listeners) listener(copy);
+		}
+	});
+}
+
+/**
+ * Options accepted by `ReactiveList`.
+ *
+ * @template T The type of items in the list.
+ */
+export interface ReactiveListOptions<T> {
+	/**
+	 * A name identifying the list in the graphs returned by
+	 * `DependencyTracker.inspect`.
+	 */
+	readonly debugName?: string;
+
+	/**
+	 * Decides whether a new item differs from the one it replaces in
+	 * {@linkcode ReactiveList.update}. Defaults to strict equality.
+	 */
+	readonly equals?: EqualityFunction<T>;
+
+	/**
+	 * Identifies items across calls to {@linkcode ReactiveList.set}. When
+	 * provided, `set` reconciles the new items against the current ones by key
+	 * and only emits events for items that were actually added, removed, moved
+	 * or updated, instead of removing every item and adding them back.
+	 */
+	readonly key?: (item: T) => unknown;
+}
+
+interface ReactiveListSnapshot<T> {
+	readonly items: Array<T>;
+	readonly pendingCount: number;
 }
 
 /**
@@ -42,7 +109,11 @@ function onItemsChanged<T>(
  *
  * @template T The type of items in the list.
  */
-export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Array<T>> {
+export class ReactiveList<T extends NonNullable<unknown>>
+	implements Debuggable, Reactive<Array<T>>, Transactional<ReactiveListSnapshot<T>>
+{
+	public readonly [reactiveBrand] = true;
+
 	public get length(): number {
 		trackDependency(this);
 		return this.items.length;
@@ -56,17 +127,22 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 		this.set(items);
 	}
 
+	public get version(): number {
+		return this.internalVersion;
+	}
+
 	/**
 	 * Adds an item to the end of the list.
 	 *
 	 * @param value - The item to add to the list.
 	 */
 	public add(value: T): void {
-		const { addListeners, dependents, items, listeners } = this;
+		recordWrite(this);
+		const { items } = this;
 		const index = items.length;
 		items[index] = value;
-		safeNotifyItemAdded(addListeners, value, index);
-		onItemsChanged(dependents, listeners, items);
+		this.emitItemAdded(value, index);
+		this.emitItemsChanged();
 	}
 
 	public addDependent(dependent: Dependent): void {
@@ -82,18 +158,28 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 		const { items } = this;
 		if (items.length <= 0) return;
 
-		const { dependents, listeners, removeListeners } = this;
-		if (removeListeners.size > 0) {
+		recordWrite(this);
+		if (this.removeListeners.size > 0 || isBatching()) {
 			const clone = [...items];
 			for (let index = clone.length; index > 0; index -= 1) {
 				const value = clone[index - 1];
-				if (value !== undefined) notifyItemRemoved(removeListeners, value, index - 1);
+				if (value !== undefined) this.emitItemRemoved(value, index - 1);
 			}
 		}
 
-		const newItems = new Array<T>();
-		this.items = newItems;
-		onItemsChanged(dependents, listeners, newItems);
+		this.items = new Array<T>();
+		this.emitItemsChanged();
+	}
+
+	/**
+	 * Delivers the item events and change notifications deferred by a batch.
+	 *
+	 * @param _snapshot - The contents before the first write in the batch.
+	 */
+	public commit(_snapshot: ReactiveListSnapshot<T>): void {
+		const pendingEvents = this.pendingEvents.splice(0);
+		for (const pendingEvent of pendingEvents) pendingEvent();
+		onItemsChanged(this.dependents, this.listeners, this.items);
 	}
 
 	public contains(value: T): boolean {
@@ -105,6 +191,22 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 		return new Computed<Array<T>>(() => this.get().filter(predicate));
 	}
 
+	/**
+	 * Creates a derived list of the items matching the predicate, kept in
+	 * source order. Unlike {@linkcode ReactiveList.filter}, the derived list is
+	 * maintained from this list's item events, so the predicate only runs for
+	 * items that were added or updated.
+	 *
+	 * @param predicate - The function deciding whether an item is kept.
+	 * @returns A new read-only derived list.
+	 * @throws {InvalidOperationError} If this list has writes pending in an
+	 *   open batch.
+	 */
+	public filterItems(predicate: (value: T) => boolean): DerivedList<T> {
+		this.assertCommitted();
+		return new FilteredList(this, predicate);
+	}
+
 	public find(predicate: (value: T, index: number, array: ReadonlyArray<T>) => boolean): T | undefined;
 	public find(predicate: (value: T, index: number, array: ReadonlyArray<T>) => value is T): T | undefined {
 		trackDependency(this);
@@ -116,22 +218,70 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 		return [...this.items];
 	}
 
+	public getDebugInfo(): DebugInfo {
+		return {
+			dependencies: [],
+			dependents: [...this.dependents],
+			kind: "ReactiveList",
+			lastChangedAt: this.lastChangedAt,
+			name: this.debugName,
+			recomputeCount: 0,
+		};
+	}
+
+	/**
+	 * Groups the items by key into derived lists, kept in source order. Groups
+	 * are added when the first item with their key appears and removed once
+	 * their last item is gone.
+	 *
+	 * @template K The type of the group keys.
+	 * @param selector - The function computing the group key of an item.
+	 * @returns A new read-only reactive map from group key to derived list.
+	 * @throws {InvalidOperationError} If this list has writes pending in an
+	 *   open batch.
+	 */
+	public groupBy<K>(selector: (value: T) => K): GroupedItems<K, T> {
+		this.assertCommitted();
+		return new GroupedItems(this, selector);
+	}
+
 	public insert(index: number, value: T): void {
-		const { addListeners, dependents, items, listeners } = this;
+		const { items } = this;
 
 		if (index < 0 || index > items.length) throw new Error(`Index out of bounds: ${index}`);
+		recordWrite(this);
 		items.splice(index, 0, value);
 
-		safeNotifyItemAdded(addListeners, value, index);
-		onItemsChanged(dependents, listeners, items);
+		this.emitItemAdded(value, index);
+		this.emitItemsChanged();
 	}
 
 	public map<R>(selector: ArrayPredicate<T, R>): Computed<Array<R>> {
 		return new Computed<Array<R>>(() => this.get().map(selector));
 	}
 
+	/**
+	 * Creates a derived list of the selector's result for every item. Unlike
+	 * {@linkcode ReactiveList.map}, the derived list is maintained from this
+	 * list's item events, so the selector only runs for items that were added
+	 * or updated.
+	 *
+	 * @template R The type of the mapped items.
+	 * @param selector - The function mapping an item.
+	 * @returns A new read-only derived list.
+	 * @throws {InvalidOperationError} If this list has writes pending in an
+	 *   open batch.
+	 */
+	public mapItems<R extends NonNullable<unknown>>(selector: (value: T) => R): DerivedList<R> {
+		this.assertCommitted();
+		return new MappedList(this, selector);
+	}
+
 	public notifyDependents(): void {
-		notifyDependents(this.dependents);
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
+		const { dependents } = this;
+		propagate((): void => notifyDependents(dependents));
 	}
 
 	public onChange(callback: (value: Array<T>) => void): Cleanup {
@@ -142,11 +292,40 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 		return addListener(this.addListeners, callback);
 	}
 
+	/**
+	 * Registers a callback for items moved by a keyed
+	 * {@linkcode ReactiveList.set}. The indices are valid at the time the event
+	 * is emitted, so replaying every event in order transforms the old list
+	 * into the new one.
+	 *
+	 * @param callback - The function to call with the item and its old and new
+	 *   index.
+	 * @returns A function that can be called to unregister the callback.
+	 */
+	public onItemMoved(callback: (value: T, fromIndex: number, toIndex: number) => void): Cleanup {
+		return addListener(this.moveListeners, callback);
+	}
+
 	public onItemRemoved(callback: (value: T, index: number) => void): Cleanup {
 		return addListener(this.removeListeners, callback);
 	}
 
+	/**
+	 * Registers a callback for items replaced in place, either by
+	 * {@linkcode ReactiveList.update} or by a keyed
+	 * {@linkcode ReactiveList.set} that found an unequal item with the same key.
+	 *
+	 * @param callback - The function to call with the new item, its index and
+	 *   the item it replaced.
+	 * @returns A function that can be called to unregister the callback.
+	 */
+	public onItemUpdated(callback: (value: T, index: number, previousValue: T) => void): Cleanup {
+		return addListener(this.updateListeners, callback);
+	}
+
 	public onItemsChanged(): void {
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
 		onItemsChanged(this.dependents, this.listeners, this.items);
 	}
 
@@ -155,15 +334,16 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 	}
 
 	public pop(): T | undefined {
-		const { dependents, items, listeners, removeListeners } = this;
+		const { items } = this;
 		const { length } = items;
 		if (length === 0) return undefined;
 
+		recordWrite(this);
 		const item = items[length - 1]!;
-		delete items[length - 1];
+		items.length = length - 1;
 
-		safeNotifyItemRemoved(removeListeners, item, length - 1);
-		onItemsChanged(dependents, listeners, items);
+		this.emitItemRemoved(item, length - 1);
+		this.emitItemsChanged();
 		return item;
 	}
 
@@ -173,26 +353,28 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 	}
 
 	public remove(value: T): boolean {
-		const { dependents, items, listeners, removeListeners } = this;
+		const { items } = this;
 		const index = items.indexOf(value);
 		if (index === -1) return false;
 
+		recordWrite(this);
 		items.splice(index, 1);
-		safeNotifyItemRemoved(removeListeners, value, index);
-		onItemsChanged(dependents, listeners, items);
+		this.emitItemRemoved(value, index);
+		this.emitItemsChanged();
 		return true;
 	}
 
 	public removeAt(index: number): T | undefined {
-		const { dependents, items, listeners, removeListeners } = this;
+		const { items } = this;
 		if (index < 0 || index >= items.length) return undefined;
 
 		const item = items[index];
 		if (item === undefined) return undefined;
 
+		recordWrite(this);
 		items.splice(index, 1);
-		safeNotifyItemRemoved(removeListeners, item, index);
-		onItemsChanged(dependents, listeners, items);
+		this.emitItemRemoved(item, index);
+		this.emitItemsChanged();
 		return item;
 	}
 
@@ -204,38 +386,61 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 		this.set(items);
 	}
 
+	/**
+	 * Restores the contents captured before a batch, discarding the item
+	 * events deferred since. Dependents are invalidated, since they may have
+	 * read the discarded contents inside the batch.
+	 *
+	 * @param snapshot - The contents before the first write in the batch.
+	 */
+	public restore(snapshot: ReactiveListSnapshot<T>): void {
+		this.items = snapshot.items;
+		this.pendingEvents.length = snapshot.pendingCount;
+		this.notifyDependents();
+	}
+
 	public set(items: AnyArray<T>): void {
-		const { addListeners, dependents, listeners, removeListeners } = this;
-		if (removeListeners.size > 0) {
+		const { getKey } = this;
+		if (getKey !== undefined) {
+			this.reconcile([...items], getKey);
+			return;
+		}
+
+		recordWrite(this);
+		const batching = isBatching();
+		if (this.removeListeners.size > 0 || batching) {
 			const previousItems = [...this.items];
 			for (let index = previousItems.length; index > 0; index -= 1) {
 				const value = previousItems[index - 1];
-				if (value !== undefined) notifyItemRemoved(removeListeners, value, index - 1);
+				if (value !== undefined) this.emitItemRemoved(value, index - 1);
 			}
 		}
 
 		const newItems = [...items];
 		this.items = newItems;
 
-		if (addListeners.size > 0) {
+		if (this.addListeners.size > 0 || batching) {
 			let index = 0;
 			for (const item of newItems) {
-				notifyItemAdded(addListeners, item, index);
+				this.emitItemAdded(item, index);
 				index += 1;
 			}
 		}
 
-		onItemsChanged(dependents, listeners, newItems);
+		this.emitItemsChanged();
 	}
 
 	public shift(): T | undefined {
 		trackDependency(this);
-		const { dependents, items, listeners, removeListeners } = this;
+		const { items } = this;
+		if (items.length === 0) return undefined;
+
+		recordWrite(this);
 		const value = items.shift();
 		if (value === undefined) return undefined;
 
-		safeNotifyItemRemoved(removeListeners, value, 0);
-		onItemsChanged(dependents, listeners, items);
+		this.emitItemRemoved(value, 0);
+		this.emitItemsChanged();
 		return value;
 	}
 
@@ -244,12 +449,54 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 		return this.items.length;
 	}
 
+	/**
+	 * Creates a derived list of the items between two indices, following
+	 * `Array.prototype.slice`. Each change to this list only compares the
+	 * items inside the window.
+	 *
+	 * @param start - The index of the first item, counted from the end if
+	 *   negative.
+	 * @param end - The index after the last item, counted from the end if
+	 *   negative. Defaults to the length of the list.
+	 * @returns A new read-only derived list.
+	 * @throws {InvalidOperationError} If this list has writes pending in an
+	 *   open batch.
+	 */
+	public slice(start?: number, end?: number): DerivedList<T> {
+		this.assertCommitted();
+		return new SlicedList(this, start, end);
+	}
+
+	public snapshot(): ReactiveListSnapshot<T> {
+		return { items: [...this.items], pendingCount: this.pendingEvents.length };
+	}
+
+	/**
+	 * Creates a derived list of the items sorted by the key the selector
+	 * returns. Added and updated items are placed with a binary search instead
+	 * of sorting the whole list again; items with equal keys keep the order in
+	 * which they arrived.
+	 *
+	 * @param selector - The function computing the sort key of an item.
+	 * @returns A new read-only derived list.
+	 * @throws {InvalidOperationError} If this list has writes pending in an
+	 *   open batch.
+	 */
+	public sortBy(selector: (value: T) => number | string): DerivedList<T> {
+		this.assertCommitted();
+		return new SortedList(this, selector);
+	}
+
 	public update(index: number, value: T): boolean {
-		const { dependents, items, listeners } = this;
+		const { items } = this;
 		if (index < 0 || index >= items.length) return false;
+		const previousValue = items[index]!;
+		if (this.equals(previousValue, value)) return true;
 
+		recordWrite(this);
 		items[index] = value;
-		onItemsChanged(dependents, listeners, items);
+		this.emitItemUpdated(value, index, previousValue);
+		this.emitItemsChanged();
 		return true;
 	}
 
@@ -257,13 +504,629 @@ export class ReactiveList<T extends NonNullable<unknown>> implements Reactive<Ar
 		this.set(items);
 	}
 
-	public constructor(initialItems?: AnyArray<T>) {
+	/**
+	 * Creates a new reactive list.
+	 *
+	 * @param initialItems - The items the list starts with.
+	 * @param options - Options controlling how item changes are detected.
+	 */
+	public constructor(initialItems?: AnyArray<T>, options?: ReactiveListOptions<T>) {
 		this.items = initialItems ? [...initialItems] : [];
+		this.equals = options?.equals ?? strictEqual;
+		this.getKey = options?.key;
+		this.debugName = options?.debugName;
+	}
+
+	private assertCommitted(): void {
+		if (this.pendingEvents.length === 0) return;
+
+		const exception = new Error("Cannot derive a list from a list with writes pending in an open batch.");
+		exception.name = "InvalidOperationError";
+		Error.captureStackTrace(exception, this.assertCommitted);
+		throw exception;
+	}
+
+	protected emitItemAdded(value: T, index: number): void {
+		const { addListeners } = this;
+		if (isBatching()) this.pendingEvents.push(() => safeNotifyItemAdded(addListeners, value, index));
+		else safeNotifyItemAdded(addListeners, value, index);
+	}
+
+	protected emitItemMoved(value: T, fromIndex: number, toIndex: number): void {
+		const { moveListeners } = this;
+		if (isBatching()) this.pendingEvents.push(() => notifyItemMoved(moveListeners, value, fromIndex, toIndex));
+		else if (moveListeners.size > 0) notifyItemMoved(moveListeners, value, fromIndex, toIndex);
+	}
+
+	protected emitItemRemoved(value: T, index: number): void {
+		const { removeListeners } = this;
+		if (isBatching()) this.pendingEvents.push(() => safeNotifyItemRemoved(removeListeners, value, index));
+		else safeNotifyItemRemoved(removeListeners, value, index);
+	}
+
+	protected emitItemUpdated(value: T, index: number, previousValue: T): void {
+		const { updateListeners } = this;
+		if (isBatching())
+			this.pendingEvents.push(() => notifyItemUpdated(updateListeners, value, index, previousValue));
+		else if (updateListeners.size > 0) notifyItemUpdated(updateListeners, value, index, previousValue);
+	}
+
+	protected emitItemsChanged(): void {
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
+		if (!isBatching()) onItemsChanged(this.dependents, this.listeners, this.items);
+	}
+
+	/**
+	 * Replaces the items with the next items, emitting item events only for
+	 * the items that changed: items whose key disappeared are removed from the
+	 * back, then every position is filled in order by keeping, moving, or
+	 * adding the item with the wanted key. Items kept or moved are updated if
+	 * they are no longer equal.
+	 *
+	 * @param nextItems - The items to reconcile against.
+	 * @param getKey - The function identifying items.
+	 */
+	protected reconcile(nextItems: Array<T>, getKey: (item: T) => unknown): void {
+		const nextKeys = new Set<unknown>();
+		for (const item of nextItems) {
+			const key = getKey(item);
+			if (nextKeys.has(key)) throw new Error(`Duplicate key in ReactiveList: ${String(key)}`);
+			nextKeys.add(key);
+		}
+
+		recordWrite(this);
+		const working = [...this.items];
+		const workingKeys = working.map(getKey);
+		let hasChanged = false;
+
+		const retainedKeys = new Set<unknown>();
+		const isRetained = workingKeys.map((key): boolean => {
+			if (!nextKeys.has(key) || retainedKeys.has(key)) return false;
+			retainedKeys.add(key);
+			return true;
+		});
+		for (let index = working.length - 1; index >= 0; index -= 1) {
+			if (isRetained[index]) continue;
+
+			const [removed] = working.splice(index, 1);
+			workingKeys.splice(index, 1);
+			if (removed !== undefined) this.emitItemRemoved(removed, index);
+			hasChanged = true;
+		}
+
+		for (const [index, item] of nextItems.entries()) {
+			const key = getKey(item);
+			if (workingKeys[index] !== key) {
+				const fromIndex = workingKeys.indexOf(key, index + 1);
+				if (fromIndex === -1) {
+					working.splice(index, 0, item);
+					workingKeys.splice(index, 0, key);
+					this.emitItemAdded(item, index);
+					hasChanged = true;
+					continue;
+				}
+
+				const [moved] = working.splice(fromIndex, 1);
+				workingKeys.splice(fromIndex, 1);
+				working.splice(index, 0, moved!);
+				workingKeys.splice(index, 0, key);
+				this.emitItemMoved(moved!, fromIndex, index);
+				hasChanged = true;
+			}
+
+			const previousValue = working[index]!;
+			if (!this.equals(previousValue, item)) {
+				this.emitItemUpdated(item, index, previousValue);
+				hasChanged = true;
+			}
+		}
+
+		this.items = nextItems;
+		if (hasChanged) this.emitItemsChanged();
 	}
 
 	protected readonly addListeners = new Set<(value: T, index: number) => void>();
+	protected readonly debugName?: string;
 	protected readonly dependents = new Set<Dependent>();
+	protected readonly equals: EqualityFunction<T>;
+	protected readonly getKey?: (item: T) => unknown;
+	protected internalVersion = 0;
 	protected items: Array<T>;
+	protected lastChangedAt?: number;
 	protected readonly listeners = new Set<(value: Array<T>) => void>();
+	protected readonly moveListeners = new Set<(value: T, fromIndex: number, toIndex: number) => void>();
+	protected readonly pendingEvents = new Array<() => void>();
 	protected readonly removeListeners = new Set<(value: T, index: number) => void>();
+	protected readonly updateListeners = new Set<(value: T, index: number, previousValue: T) => void>();
+}
+
+function throwReadonlyList(): never {
+	const exception = new Error("Derived lists are read-only. Update the source list instead.");
+	exception.name = "InvalidOperationError";
+	Error.captureStackTrace(exception, throwReadonlyList);
+	throw exception;
+}
+
+function throwMissingItem(caller: (...args: never) => unknown): never {
+	const exception = new Error("The sorted list no longer matches its source. The item is missing.");
+	exception.name = "InvalidOperationError";
+	Error.captureStackTrace(exception, caller);
+	throw exception;
+}
+
+function countIncluded(included: ReadonlyArray<boolean>, end: number): number {
+	let count = 0;
+	for (let index = 0; index < end; index += 1) if (included[index]) count += 1;
+	return count;
+}
+
+function positionInGroup<K>(keys: ReadonlyArray<K>, key: K, end: number): number {
+	let position = 0;
+	for (let index = 0; index < end; index += 1) if (keys[index] === key) position += 1;
+	return position;
+}
+
+function compareKeys(a: number | string, b: number | string): number {
+	if (a < b) return -1;
+	return a > b ? 1 : 0;
+}
+
+interface ListEventHandlers<S> {
+	readonly added: (value: S, index: number) => void;
+	readonly moved: (value: S, fromIndex: number, toIndex: number) => void;
+	readonly removed: (value: S, index: number) => void;
+	readonly updated: (value: S, index: number, previousValue: S) => void;
+}
+
+function listen<S extends NonNullable<unknown>>(
+	source: ReactiveList<S>,
+	handlers: ListEventHandlers<S>,
+	onChanged: () => void,
+): Array<Cleanup> {
+	return [
+		source.onItemAdded(handlers.added),
+		source.onItemMoved(handlers.moved),
+		source.onItemRemoved(handlers.removed),
+		source.onItemUpdated(handlers.updated),
+		source.onChange(onChanged),
+	];
+}
+
+/**
+ * A read-only list derived from another list by one of the incremental
+ * operators of {@linkcode ReactiveList}, such as
+ * {@linkcode ReactiveList.mapItems}. It applies the source's item events to its
+ * own items, emits matching item events of its own, and notifies dependents
+ * once per change of the source.
+ *
+ * Derived lists stay subscribed to their source until disposed, either
+ * directly or by the enclosing scope.
+ *
+ * @template T The type of items in the list.
+ */
+export class DerivedList<T extends NonNullable<unknown>> extends ReactiveList<T> {
+	/** Whether the derived list has been disposed. */
+	public get isDisposed(): boolean {
+		return this.isDestroyed;
+	}
+
+	public override add(_value: T): never {
+		return throwReadonlyList();
+	}
+
+	public override clear(): never {
+		return throwReadonlyList();
+	}
+
+	/**
+	 * Unsubscribes from the source list. A disposed derived list keeps its last
+	 * items and no longer changes.
+	 */
+	public dispose(): void {
+		if (this.isDestroyed) return;
+
+		this.isDestroyed = true;
+		for (const cleanup of this.cleanups.splice(0)) cleanup();
+	}
+
+	public override insert(_index: number, _value: T): never {
+		return throwReadonlyList();
+	}
+
+	public override pop(): never {
+		return throwReadonlyList();
+	}
+
+	public override remove(_value: T): never {
+		return throwReadonlyList();
+	}
+
+	public override removeAt(_index: number): never {
+		return throwReadonlyList();
+	}
+
+	public override set(_items: AnyArray<T>): never {
+		return throwReadonlyList();
+	}
+
+	public override shift(): never {
+		return throwReadonlyList();
+	}
+
+	public override update(_index: number, _value: T): never {
+		return throwReadonlyList();
+	}
+
+	protected constructor(initialItems: Array<T>) {
+		super(initialItems);
+	}
+
+	protected applyAdded(value: T, index: number): void {
+		this.items.splice(index, 0, value);
+		this.hasPendingChanges = true;
+		this.emitItemAdded(value, index);
+	}
+
+	protected applyChanges(): void {
+		if (!this.hasPendingChanges) return;
+
+		this.hasPendingChanges = false;
+		this.emitItemsChanged();
+	}
+
+	protected applyMoved(fromIndex: number, toIndex: number): void {
+		if (fromIndex === toIndex) return;
+
+		const { items } = this;
+		const [value] = items.splice(fromIndex, 1);
+		items.splice(toIndex, 0, value!);
+		this.hasPendingChanges = true;
+		this.emitItemMoved(value!, fromIndex, toIndex);
+	}
+
+	protected applyRemoved(index: number): void {
+		const [value] = this.items.splice(index, 1);
+		this.hasPendingChanges = true;
+		this.emitItemRemoved(value!, index);
+	}
+
+	protected applyUpdated(value: T, index: number): void {
+		const { items } = this;
+		const previousValue = items[index]!;
+		if (this.equals(previousValue, value)) return;
+
+		items[index] = value;
+		this.hasPendingChanges = true;
+		this.emitItemUpdated(value, index, previousValue);
+	}
+
+	protected follow<S extends NonNullable<unknown>>(source: ReactiveList<S>, handlers: ListEventHandlers<S>): void {
+		this.cleanups.push(...listen(source, handlers, (): void => this.applyChanges()));
+		onDispose(() => this.dispose());
+	}
+
+	private readonly cleanups = new Array<Cleanup>();
+	private hasPendingChanges = false;
+	private isDestroyed = false;
+}
+
+class MappedList<S extends NonNullable<unknown>, T extends NonNullable<unknown>> extends DerivedList<T> {
+	public constructor(source: ReactiveList<S>, selector: (value: S) => T) {
+		super(source.peek().map(selector));
+		this.follow(source, {
+			added: (value, index): void => this.applyAdded(selector(value), index),
+			moved: (_value, fromIndex, toIndex): void => this.applyMoved(fromIndex, toIndex),
+			removed: (_value, index): void => this.applyRemoved(index),
+			updated: (value, index): void => this.applyUpdated(selector(value), index),
+		});
+	}
+}
+
+class FilteredList<T extends NonNullable<unknown>> extends DerivedList<T> {
+	public constructor(source: ReactiveList<T>, predicate: (value: T) => boolean) {
+		const sourceItems = source.peek();
+		super(sourceItems.filter((value) => predicate(value)));
+		const included = sourceItems.map((value) => predicate(value));
+
+		this.follow(source, {
+			added: (value, index): void => {
+				const isIncluded = predicate(value);
+				included.splice(index, 0, isIncluded);
+				if (isIncluded) this.applyAdded(value, countIncluded(included, index));
+			},
+			moved: (_value, fromIndex, toIndex): void => {
+				const derivedFromIndex = countIncluded(included, fromIndex);
+				const [wasIncluded] = included.splice(fromIndex, 1);
+				included.splice(toIndex, 0, wasIncluded!);
+				if (wasIncluded) this.applyMoved(derivedFromIndex, countIncluded(included, toIndex));
+			},
+			removed: (_value, index): void => {
+				const [wasIncluded] = included.splice(index, 1);
+				if (wasIncluded) this.applyRemoved(countIncluded(included, index));
+			},
+			updated: (value, index): void => {
+				const wasIncluded = included[index];
+				const isIncluded = predicate(value);
+				included[index] = isIncluded;
+
+				const derivedIndex = countIncluded(included, index);
+				if (wasIncluded && isIncluded) this.applyUpdated(value, derivedIndex);
+				else if (wasIncluded) this.applyRemoved(derivedIndex);
+				else if (isIncluded) this.applyAdded(value, derivedIndex);
+			},
+		});
+	}
+}
+
+class SortedList<T extends NonNullable<unknown>> extends DerivedList<T> {
+	public constructor(
+		source: ReactiveList<T>,
+		private readonly selector: (value: T) => number | string,
+	) {
+		super(
+			source
+				.peek()
+				.map((value) => ({ key: selector(value), value }))
+				.sort((a, b) => compareKeys(a.key, b.key))
+				.map(({ value }) => value),
+		);
+
+		this.follow(source, {
+			added: (value): void => this.applyAdded(value, this.upperBound(selector(value))),
+			moved: (): void => {
+				// Sorted order does not depend on the position in the source.
+			},
+			removed: (value): void => this.applyRemoved(this.indexOfItem(value)),
+			updated: (value, _index, previousValue): void => {
+				const { items } = this;
+				const fromIndex = this.indexOfItem(previousValue);
+				items.splice(fromIndex, 1);
+				const toIndex = this.upperBound(selector(value));
+				items.splice(fromIndex, 0, previousValue);
+
+				this.applyMoved(fromIndex, toIndex);
+				this.applyUpdated(value, toIndex);
+			},
+		});
+	}
+
+	private indexOfItem(value: T): number {
+		const { items, selector } = this;
+		const key = selector(value);
+		for (let index = this.lowerBound(key); index < items.length; index += 1) {
+			const item = items[index]!;
+			if (Object.is(item, value)) return index;
+			if (selector(item) !== key) break;
+		}
+
+		// The item's key changed without an update event, so fall back to a
+		// linear search.
+		const index = items.findIndex((item) => Object.is(item, value));
+		if (index === -1) throwMissingItem(this.indexOfItem);
+		return index;
+	}
+
+	private lowerBound(key: number | string): number {
+		const { items, selector } = this;
+		let low = 0;
+		let high = items.length;
+		while (low < high) {
+			const middle = (low + high) >>> 1;
+			if (selector(items[middle]!) < key) low = middle + 1;
+			else high = middle;
+		}
+
+		return low;
+	}
+
+	private upperBound(key: number | string): number {
+		const { items, selector } = this;
+		let low = 0;
+		let high = items.length;
+		while (low < high) {
+			const middle = (low + high) >>> 1;
+			if (selector(items[middle]!) <= key) low = middle + 1;
+			else high = middle;
+		}
+
+		return low;
+	}
+}
+
+class SlicedList<T extends NonNullable<unknown>> extends DerivedList<T> {
+	public constructor(source: ReactiveList<T>, start?: number, end?: number) {
+		const sourceItems = source.peek();
+		super(sourceItems.slice(start, end));
+
+		const synchronize = (): void => {
+			const { items } = this;
+			const next = sourceItems.slice(start, end);
+			const shortest = Math.min(items.length, next.length);
+
+			let prefix = 0;
+			while (prefix < shortest && items[prefix] === next[prefix]) prefix += 1;
+			let suffix = 0;
+			while (suffix < shortest - prefix && items.at(-1 - suffix) === next.at(-1 - suffix)) suffix += 1;
+
+			const removedCount = items.length - prefix - suffix;
+			const addedCount = next.length - prefix - suffix;
+			if (removedCount === 1 && addedCount === 1) {
+				this.applyUpdated(next[prefix]!, prefix);
+				return;
+			}
+
+			for (let index = prefix + removedCount - 1; index >= prefix; index -= 1) this.applyRemoved(index);
+			for (let index = prefix; index < prefix + addedCount; index += 1) this.applyAdded(next[index]!, index);
+		};
+
+		this.follow(source, {
+			added: (value, index): void => {
+				sourceItems.splice(index, 0, value);
+				synchronize();
+			},
+			moved: (value, fromIndex, toIndex): void => {
+				sourceItems.splice(fromIndex, 1);
+				sourceItems.splice(toIndex, 0, value);
+				synchronize();
+			},
+			removed: (_value, index): void => {
+				sourceItems.splice(index, 1);
+				synchronize();
+			},
+			updated: (value, index): void => {
+				sourceItems[index] = value;
+				synchronize();
+			},
+		});
+	}
+}
+
+class GroupList<T extends NonNullable<unknown>> extends DerivedList<T> {
+	public get isEmpty(): boolean {
+		return this.items.length === 0;
+	}
+
+	public added(value: T, index: number): void {
+		this.applyAdded(value, index);
+	}
+
+	public changed(): void {
+		this.applyChanges();
+	}
+
+	public moved(fromIndex: number, toIndex: number): void {
+		this.applyMoved(fromIndex, toIndex);
+	}
+
+	public removed(index: number): void {
+		this.applyRemoved(index);
+	}
+
+	public updated(value: T, index: number): void {
+		this.applyUpdated(value, index);
+	}
+
+	public constructor() {
+		super([]);
+	}
+}
+
+/**
+ * A read-only reactive map of derived lists, created by
+ * {@linkcode ReactiveList.groupBy}.
+ *
+ * @template K The type of the group keys.
+ * @template T The type of items in the groups.
+ */
+export class GroupedItems<K, T extends NonNullable<unknown>> extends ReactiveMap<K, ReactiveList<T>> {
+	/** Whether the grouping has been disposed. */
+	public get isDisposed(): boolean {
+		return this.isDestroyed;
+	}
+
+	public override clear(): never {
+		return throwReadonlyList();
+	}
+
+	public override delete(_key: K): never {
+		return throwReadonlyList();
+	}
+
+	/**
+	 * Unsubscribes from the source list. A disposed grouping keeps its last
+	 * groups and no longer changes.
+	 */
+	public dispose(): void {
+		if (this.isDestroyed) return;
+
+		this.isDestroyed = true;
+		for (const cleanup of this.cleanups.splice(0)) cleanup();
+		for (const group of this.groups.values()) group.dispose();
+	}
+
+	public override set(
+		..._parameters: [map: ReadonlyMap<K, ReactiveList<T>>] | [key: K, value: ReactiveList<T>]
+	): never {
+		return throwReadonlyList();
+	}
+
+	public constructor(source: ReactiveList<T>, selector: (value: T) => K) {
+		super();
+		const keys = new Array<K>();
+		for (const [index, value] of source.peek().entries()) this.insertItem(keys, index, selector(value), value);
+		for (const group of this.changedGroups) group.changed();
+		this.changedGroups.clear();
+
+		this.cleanups.push(
+			...listen(
+				source,
+				{
+					added: (value, index): void => this.insertItem(keys, index, selector(value), value),
+					moved: (_value, fromIndex, toIndex): void => {
+						const key = keys[fromIndex] as K;
+						const group = this.groups.get(key)!;
+						const groupFromIndex = positionInGroup(keys, key, fromIndex);
+						keys.splice(fromIndex, 1);
+						keys.splice(toIndex, 0, key);
+						group.moved(groupFromIndex, positionInGroup(keys, key, toIndex));
+						this.changedGroups.add(group);
+					},
+					removed: (_value, index): void => this.removeItem(keys, index),
+					updated: (value, index): void => {
+						const key = selector(value);
+						if (key !== keys[index]) {
+							this.removeItem(keys, index);
+							this.insertItem(keys, index, key, value);
+							return;
+						}
+
+						const group = this.groups.get(key)!;
+						group.updated(value, positionInGroup(keys, key, index));
+						this.changedGroups.add(group);
+					},
+				},
+				(): void => {
+					for (const group of this.changedGroups) group.changed();
+					this.changedGroups.clear();
+				},
+			),
+		);
+		onDispose(() => this.dispose());
+	}
+
+	private insertItem(keys: Array<K>, index: number, key: K, value: T): void {
+		keys.splice(index, 0, key);
+
+		let group = this.groups.get(key);
+		if (group === undefined) {
+			group = new GroupList<T>();
+			this.groups.set(key, group);
+			super.set(key, group);
+		}
+
+		group.added(value, positionInGroup(keys, key, index));
+		this.changedGroups.add(group);
+	}
+
+	private removeItem(keys: Array<K>, index: number): void {
+		const key = keys[index] as K;
+		const group = this.groups.get(key)!;
+		const groupIndex = positionInGroup(keys, key, index);
+		keys.splice(index, 1);
+		group.removed(groupIndex);
+
+		if (group.isEmpty) {
+			group.changed();
+			group.dispose();
+			this.changedGroups.delete(group);
+			this.groups.delete(key);
+			super.delete(key);
+		} else this.changedGroups.add(group);
+	}
+
+	private readonly changedGroups = new Set<GroupList<T>>();
+	private readonly cleanups = new Array<Cleanup>();
+	private readonly groups = new Map<K, GroupList<T>>();
+	private isDestroyed = false;
 }
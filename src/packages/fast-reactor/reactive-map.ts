@@ -0,0 +1,376 @@
+import type { Cleanup } from "types/utility-types";
+import { isBatching, propagate, recordWrite } from "./batch";
+import { reactiveBrand } from "./brand";
+import { Computed } from "./computed";
+import { trackDependency } from "./dependency-tracker";
+import { strictEqual } from "./equality";
+import { KeyedObservables } from "./keyed-observables";
+import type {
+	Debuggable,
+	DebugInfo,
+	Dependent,
+	EqualityFunction,
+	Reactive,
+	ReactiveOptions,
+	Transactional,
+} from "./types";
+import { createDependentSet, type DependentSet } from "./weak-dependents";
+
+function addListener<T>(set: Set<T>, callback: T): Cleanup {
+	set.add(callback);
+	return () => set.delete(callback);
+}
+
+interface ReactiveMapSnapshot<K, V> {
+	readonly entries: Map<K, V>;
+	readonly pendingCount: number;
+}
+
+/**
+ * Represents a reactive map. Reading a single key with
+ * {@linkcode ReactiveMap.get} or {@linkcode ReactiveMap.has} only subscribes to
+ * that key, while reading the whole map subscribes to every change.
+ *
+ * @example
+ *
+ * ```typescript
+ * const costOfLiving = new ReactiveMap<string, number>();
+ * const seattle = new Computed(() => costOfLiving.get("Seattle") ?? 0);
+ *
+ * costOfLiving.set("Portland", 1.1); // `seattle` does not recompute
+ * costOfLiving.set("Seattle", 1.4); // `seattle` recomputes
+ * ```
+ *
+ * @template K The type of the keys.
+ * @template V The type of the values.
+ */
+export class ReactiveMap<K, V> implements Debuggable, Reactive<Map<K, V>>, Transactional<ReactiveMapSnapshot<K, V>> {
+	public readonly [reactiveBrand] = true;
+
+	/** The number of entries in the map. Subscribes to every change. */
+	public get size(): number {
+		trackDependency(this);
+		return this.entriesMap.size;
+	}
+
+	public get value(): Map<K, V> {
+		return this.peek();
+	}
+
+	public set value(map: ReadonlyMap<K, V>) {
+		this.set(map);
+	}
+
+	public get version(): number {
+		return this.internalVersion;
+	}
+
+	public addDependent(dependent: Dependent): void {
+		this.dependents.add(dependent);
+	}
+
+	/** Removes every entry from the map. */
+	public clear(): void {
+		const { entriesMap } = this;
+		if (entriesMap.size === 0) return;
+
+		recordWrite(this);
+		const previousEntries = [...entriesMap];
+		entriesMap.clear();
+		this.emitChanges((): void => {
+			for (const [key, value] of previousEntries) this.notifyKeyRemoved(key, value);
+		});
+	}
+
+	/**
+	 * Delivers the key events and change notifications deferred by a batch.
+	 *
+	 * @param _snapshot - The contents before the first write in the batch.
+	 */
+	public commit(_snapshot: ReactiveMapSnapshot<K, V>): void {
+		const pendingEvents = this.pendingEvents.splice(0);
+		propagate((): void => {
+			for (const pendingEvent of pendingEvents) pendingEvent();
+			this.notifyCollectionChanged();
+		});
+	}
+
+	/**
+	 * Removes the entry for the specified key.
+	 *
+	 * @param key - The key to remove.
+	 * @returns `true` if an entry was removed.
+	 */
+	public delete(key: K): boolean {
+		const { entriesMap } = this;
+		if (!entriesMap.has(key)) return false;
+
+		recordWrite(this);
+		const value = entriesMap.get(key) as V;
+		entriesMap.delete(key);
+		this.emitChanges((): void => this.notifyKeyRemoved(key, value));
+		return true;
+	}
+
+	/**
+	 * Creates a derived array of the entries of this map.
+	 *
+	 * @returns A new computed array of `[key, value]` pairs.
+	 */
+	public entries(): Computed<Array<[K, V]>> {
+		return new Computed<Array<[K, V]>>(() => [...this.get()]);
+	}
+
+	/** Gets a copy of every entry, subscribing to every change. */
+	public get(): Map<K, V>;
+
+	/**
+	 * Gets the value for the specified key, only subscribing to changes of
+	 * that key.
+	 *
+	 * @param key - The key to read.
+	 */
+	public get(key: K): undefined | V;
+	public get(...parameters: [] | [key: K]): Map<K, V> | undefined | V {
+		if (parameters.length === 0) {
+			trackDependency(this);
+			return new Map(this.entriesMap);
+		}
+
+		const [key] = parameters;
+		this.keyedObservables.track(key);
+		return this.entriesMap.get(key);
+	}
+
+	public getDebugInfo(): DebugInfo {
+		return {
+			dependencies: [],
+			dependents: [...this.dependents],
+			kind: "ReactiveMap",
+			lastChangedAt: this.lastChangedAt,
+			name: this.debugName,
+			recomputeCount: 0,
+		};
+	}
+
+	/**
+	 * Checks whether the map has an entry for the specified key, only
+	 * subscribing to changes of that key.
+	 *
+	 * @param key - The key to check.
+	 * @returns `true` if the map has an entry for the key.
+	 */
+	public has(key: K): boolean {
+		this.keyedObservables.track(key);
+		return this.entriesMap.has(key);
+	}
+
+	/**
+	 * Creates a derived array of the keys of this map.
+	 *
+	 * @returns A new computed array of keys.
+	 */
+	public keys(): Computed<Array<K>> {
+		return new Computed<Array<K>>(() => [...this.get().keys()]);
+	}
+
+	public notifyDependents(): void {
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
+		const { dependents } = this;
+		propagate((): void => {
+			for (const dependent of [...dependents]) dependent.invalidate();
+		});
+	}
+
+	public onChange(callback: (value: Map<K, V>) => void): Cleanup {
+		return addListener(this.listeners, callback);
+	}
+
+	public onKeyAdded(callback: (key: K, value: V) => void): Cleanup {
+		return addListener(this.addListeners, callback);
+	}
+
+	public onKeyChanged(callback: (key: K, value: V, previousValue: V) => void): Cleanup {
+		return addListener(this.changeListeners, callback);
+	}
+
+	public onKeyRemoved(callback: (key: K, value: V) => void): Cleanup {
+		return addListener(this.removeListeners, callback);
+	}
+
+	public peek(): Map<K, V> {
+		return new Map(this.entriesMap);
+	}
+
+	public read(): Map<K, V> {
+		return this.get();
+	}
+
+	public removeDependent(dependent: Dependent): void {
+		this.dependents.delete(dependent);
+	}
+
+	/**
+	 * Restores the contents captured before a batch, discarding the key events
+	 * deferred since. Dependents of the whole map, and of every key whose
+	 * entry differs, are invalidated, since they may have read the discarded
+	 * contents inside the batch.
+	 *
+	 * @param snapshot - The contents before the first write in the batch.
+	 */
+	public restore(snapshot: ReactiveMapSnapshot<K, V>): void {
+		const discarded = this.entriesMap;
+		const { entries } = snapshot;
+		this.entriesMap = entries;
+		this.pendingEvents.length = snapshot.pendingCount;
+
+		const { keyedObservables } = this;
+		const changedKeys = [...keyedObservables.keys()].filter(
+			(key) =>
+				discarded.has(key) !== entries.has(key) || !this.equals(discarded.get(key) as V, entries.get(key) as V),
+		);
+		propagate((): void => {
+			for (const key of changedKeys) keyedObservables.invalidate(key);
+			this.notifyDependents();
+		});
+	}
+
+	/**
+	 * Replaces every entry, emitting key events only for the keys that were
+	 * added, removed or changed.
+	 *
+	 * @param map - The new entries.
+	 */
+	public set(map: ReadonlyMap<K, V>): void;
+
+	/**
+	 * Sets the value for the specified key.
+	 *
+	 * @param key - The key to set.
+	 * @param value - The value to set.
+	 */
+	public set(key: K, value: V): void;
+	public set(...parameters: [map: ReadonlyMap<K, V>] | [key: K, value: V]): void {
+		if (parameters.length === 1) this.replace(parameters[0]);
+		else this.setKey(parameters[0], parameters[1]);
+	}
+
+	public snapshot(): ReactiveMapSnapshot<K, V> {
+		return { entries: new Map(this.entriesMap), pendingCount: this.pendingEvents.length };
+	}
+
+	/**
+	 * Creates a derived array of the values of this map.
+	 *
+	 * @returns A new computed array of values.
+	 */
+	public values(): Computed<Array<V>> {
+		return new Computed<Array<V>>(() => [...this.get().values()]);
+	}
+
+	/**
+	 * Creates a new reactive map.
+	 *
+	 * @param entries - The entries the map starts with.
+	 * @param options - Options controlling how value changes are detected and
+	 *   how dependents are held.
+	 */
+	public constructor(entries?: Iterable<readonly [K, V]>, options?: ReactiveOptions<V>) {
+		this.entriesMap = new Map(entries);
+		this.equals = options?.equals ?? strictEqual;
+		this.debugName = options?.debugName;
+		this.dependents = createDependentSet(options?.weakDependents);
+	}
+
+	private emitChanges(event: () => void): void {
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
+		if (isBatching()) this.pendingEvents.push(event);
+		else
+			propagate((): void => {
+				event();
+				this.notifyCollectionChanged();
+			});
+	}
+
+	private notifyCollectionChanged(): void {
+		const { dependents, listeners } = this;
+		for (const dependent of [...dependents]) dependent.invalidate();
+		if (listeners.size > 0) {
+			const map = new Map(this.entriesMap);
+			for (const listener of listeners) listener(map);
+		}
+	}
+
+	private notifyKeyAdded(key: K, value: V): void {
+		this.keyedObservables.invalidate(key);
+		for (const listener of this.addListeners) listener(key, value);
+	}
+
+	private notifyKeyChanged(key: K, value: V, previousValue: V): void {
+		this.keyedObservables.invalidate(key);
+		for (const listener of this.changeListeners) listener(key, value, previousValue);
+	}
+
+	private notifyKeyRemoved(key: K, value: V): void {
+		this.keyedObservables.invalidate(key);
+		for (const listener of this.removeListeners) listener(key, value);
+	}
+
+	private replace(map: ReadonlyMap<K, V>): void {
+		const { entriesMap, equals } = this;
+		const removed = new Array<[K, V]>();
+		for (const [key, value] of entriesMap) if (!map.has(key)) removed.push([key, value]);
+
+		const added = new Array<[K, V]>();
+		const changed = new Array<[K, V, V]>();
+		for (const [key, value] of map) {
+			if (!entriesMap.has(key)) added.push([key, value]);
+			else {
+				const previousValue = entriesMap.get(key) as V;
+				if (!equals(previousValue, value)) changed.push([key, value, previousValue]);
+			}
+		}
+
+		if (removed.length === 0 && added.length === 0 && changed.length === 0) return;
+
+		recordWrite(this);
+		this.entriesMap = new Map(map);
+		this.emitChanges((): void => {
+			for (const [key, value] of removed) this.notifyKeyRemoved(key, value);
+			for (const [key, value] of added) this.notifyKeyAdded(key, value);
+			for (const [key, value, previousValue] of changed) this.notifyKeyChanged(key, value, previousValue);
+		});
+	}
+
+	private setKey(key: K, value: V): void {
+		const { entriesMap } = this;
+		if (entriesMap.has(key)) {
+			const previousValue = entriesMap.get(key) as V;
+			if (this.equals(previousValue, value)) return;
+
+			recordWrite(this);
+			entriesMap.set(key, value);
+			this.emitChanges((): void => this.notifyKeyChanged(key, value, previousValue));
+			return;
+		}
+
+		recordWrite(this);
+		entriesMap.set(key, value);
+		this.emitChanges((): void => this.notifyKeyAdded(key, value));
+	}
+
+	private readonly addListeners = new Set<(key: K, value: V) => void>();
+	private readonly changeListeners = new Set<(key: K, value: V, previousValue: V) => void>();
+	private readonly debugName?: string;
+	private readonly dependents: DependentSet;
+	private entriesMap: Map<K, V>;
+	private readonly equals: EqualityFunction<V>;
+	private internalVersion = 0;
+	private readonly keyedObservables = new KeyedObservables<K>();
+	private lastChangedAt?: number;
+	private readonly listeners = new Set<(value: Map<K, V>) => void>();
+	private readonly pendingEvents = new Array<() => void>();
+	private readonly removeListeners = new Set<(key: K, value: V) => void>();
+}
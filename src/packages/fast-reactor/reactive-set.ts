@@ -0,0 +1,308 @@
+import type { Cleanup } from "types/utility-types";
+import { isBatching, propagate, recordWrite } from "./batch";
+import { reactiveBrand } from "./brand";
+import { Computed } from "./computed";
+import { trackDependency } from "./dependency-tracker";
+import { KeyedObservables } from "./keyed-observables";
+import type { Debuggable, DebugInfo, Dependent, Reactive, Transactional } from "./types";
+
+function addListener<T>(set: Set<T>, callback: T): Cleanup {
+	set.add(callback);
+	return () => set.delete(callback);
+}
+
+interface ReactiveSetSnapshot<T> {
+	readonly pendingCount: number;
+	readonly values: Set<T>;
+}
+
+/** Options accepted by `ReactiveSet`. */
+export interface ReactiveSetOptions {
+	/**
+	 * A name identifying the set in the graphs returned by
+	 * `DependencyTracker.inspect`.
+	 */
+	readonly debugName?: string;
+}
+
+/**
+ * Represents a reactive set. Checking a single value with
+ * {@linkcode ReactiveSet.has} only subscribes to that value, while reading the
+ * whole set subscribes to every change.
+ *
+ * @template T The type of the values.
+ */
+export class ReactiveSet<T> implements Debuggable, Reactive<Set<T>>, Transactional<ReactiveSetSnapshot<T>> {
+	public readonly [reactiveBrand] = true;
+
+	/** The number of values in the set. Subscribes to every change. */
+	public get size(): number {
+		trackDependency(this);
+		return this.valuesSet.size;
+	}
+
+	public get value(): Set<T> {
+		return this.peek();
+	}
+
+	public set value(values: ReadonlySet<T>) {
+		this.set(values);
+	}
+
+	public get version(): number {
+		return this.internalVersion;
+	}
+
+	/**
+	 * Adds a value to the set.
+	 *
+	 * @param value - The value to add.
+	 * @returns `true` if the value was not already in the set.
+	 */
+	public add(value: T): boolean {
+		const { valuesSet } = this;
+		if (valuesSet.has(value)) return false;
+
+		recordWrite(this);
+		valuesSet.add(value);
+		this.emitChanges((): void => this.notifyKeyAdded(value));
+		return true;
+	}
+
+	public addDependent(dependent: Dependent): void {
+		this.dependents.add(dependent);
+	}
+
+	/** Removes every value from the set. */
+	public clear(): void {
+		const { valuesSet } = this;
+		if (valuesSet.size === 0) return;
+
+		recordWrite(this);
+		const previousValues = [...valuesSet];
+		valuesSet.clear();
+		this.emitChanges((): void => {
+			for (const value of previousValues) this.notifyKeyRemoved(value);
+		});
+	}
+
+	/**
+	 * Delivers the value events and change notifications deferred by a batch.
+	 *
+	 * @param _snapshot - The contents before the first write in the batch.
+	 */
+	public commit(_snapshot: ReactiveSetSnapshot<T>): void {
+		const pendingEvents = this.pendingEvents.splice(0);
+		propagate((): void => {
+			for (const pendingEvent of pendingEvents) pendingEvent();
+			this.notifyCollectionChanged();
+		});
+	}
+
+	/**
+	 * Removes a value from the set.
+	 *
+	 * @param value - The value to remove.
+	 * @returns `true` if the value was in the set.
+	 */
+	public delete(value: T): boolean {
+		const { valuesSet } = this;
+		if (!valuesSet.has(value)) return false;
+
+		recordWrite(this);
+		valuesSet.delete(value);
+		this.emitChanges((): void => this.notifyKeyRemoved(value));
+		return true;
+	}
+
+	/**
+	 * Creates a derived array of the entries of this set, mirroring
+	 * `Set.prototype.entries`.
+	 *
+	 * @returns A new computed array of `[value, value]` pairs.
+	 */
+	public entries(): Computed<Array<[T, T]>> {
+		return new Computed<Array<[T, T]>>(() => [...this.get().entries()]);
+	}
+
+	/** Gets a copy of the set, subscribing to every change. */
+	public get(): Set<T> {
+		trackDependency(this);
+		return new Set(this.valuesSet);
+	}
+
+	public getDebugInfo(): DebugInfo {
+		return {
+			dependencies: [],
+			dependents: [...this.dependents],
+			kind: "ReactiveSet",
+			lastChangedAt: this.lastChangedAt,
+			name: this.debugName,
+			recomputeCount: 0,
+		};
+	}
+
+	/**
+	 * Checks whether the set contains the specified value, only subscribing to
+	 * changes of that value.
+	 *
+	 * @param value - The value to check.
+	 * @returns `true` if the set contains the value.
+	 */
+	public has(value: T): boolean {
+		this.keyedObservables.track(value);
+		return this.valuesSet.has(value);
+	}
+
+	/**
+	 * Creates a derived array of the values of this set. Alias for
+	 * {@linkcode ReactiveSet.values}.
+	 *
+	 * @returns A new computed array of values.
+	 */
+	public keys(): Computed<Array<T>> {
+		return this.values();
+	}
+
+	public notifyDependents(): void {
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
+		const { dependents } = this;
+		propagate((): void => {
+			for (const dependent of [...dependents]) dependent.invalidate();
+		});
+	}
+
+	public onChange(callback: (value: Set<T>) => void): Cleanup {
+		return addListener(this.listeners, callback);
+	}
+
+	public onKeyAdded(callback: (value: T) => void): Cleanup {
+		return addListener(this.addListeners, callback);
+	}
+
+	public onKeyRemoved(callback: (value: T) => void): Cleanup {
+		return addListener(this.removeListeners, callback);
+	}
+
+	public peek(): Set<T> {
+		return new Set(this.valuesSet);
+	}
+
+	public read(): Set<T> {
+		return this.get();
+	}
+
+	public removeDependent(dependent: Dependent): void {
+		this.dependents.delete(dependent);
+	}
+
+	/**
+	 * Restores the contents captured before a batch, discarding the value
+	 * events deferred since. Dependents of the whole set, and of every value
+	 * that was added or removed, are invalidated, since they may have read
+	 * the discarded contents inside the batch.
+	 *
+	 * @param snapshot - The contents before the first write in the batch.
+	 */
+	public restore(snapshot: ReactiveSetSnapshot<T>): void {
+		const discarded = this.valuesSet;
+		const { values } = snapshot;
+		this.valuesSet = values;
+		this.pendingEvents.length = snapshot.pendingCount;
+
+		const { keyedObservables } = this;
+		const changedValues = [...keyedObservables.keys()].filter(
+			(value) => discarded.has(value) !== values.has(value),
+		);
+		propagate((): void => {
+			for (const value of changedValues) keyedObservables.invalidate(value);
+			this.notifyDependents();
+		});
+	}
+
+	/**
+	 * Replaces every value, emitting events only for the values that were
+	 * added or removed.
+	 *
+	 * @param values - The new values.
+	 */
+	public set(values: ReadonlySet<T>): void {
+		const { valuesSet } = this;
+		const removed = [...valuesSet].filter((value) => !values.has(value));
+		const added = [...values].filter((value) => !valuesSet.has(value));
+		if (removed.length === 0 && added.length === 0) return;
+
+		recordWrite(this);
+		this.valuesSet = new Set(values);
+		this.emitChanges((): void => {
+			for (const value of removed) this.notifyKeyRemoved(value);
+			for (const value of added) this.notifyKeyAdded(value);
+		});
+	}
+
+	public snapshot(): ReactiveSetSnapshot<T> {
+		return { pendingCount: this.pendingEvents.length, values: new Set(this.valuesSet) };
+	}
+
+	/**
+	 * Creates a derived array of the values of this set.
+	 *
+	 * @returns A new computed array of values.
+	 */
+	public values(): Computed<Array<T>> {
+		return new Computed<Array<T>>(() => [...this.get()]);
+	}
+
+	/**
+	 * Creates a new reactive set.
+	 *
+	 * @param values - The values the set starts with.
+	 * @param options - How the set is identified when debugging.
+	 */
+	public constructor(values?: Iterable<T>, options?: ReactiveSetOptions) {
+		this.valuesSet = new Set(values);
+		this.debugName = options?.debugName;
+	}
+
+	private emitChanges(event: () => void): void {
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
+		if (isBatching()) this.pendingEvents.push(event);
+		else
+			propagate((): void => {
+				event();
+				this.notifyCollectionChanged();
+			});
+	}
+
+	private notifyCollectionChanged(): void {
+		const { dependents, listeners } = this;
+		for (const dependent of [...dependents]) dependent.invalidate();
+		if (listeners.size > 0) {
+			const set = new Set(this.valuesSet);
+			for (const listener of listeners) listener(set);
+		}
+	}
+
+	private notifyKeyAdded(value: T): void {
+		this.keyedObservables.invalidate(value);
+		for (const listener of this.addListeners) listener(value);
+	}
+
+	private notifyKeyRemoved(value: T): void {
+		this.keyedObservables.invalidate(value);
+		for (const listener of this.removeListeners) listener(value);
+	}
+
+	private readonly addListeners = new Set<(value: T) => void>();
+	private readonly debugName?: string;
+	private readonly dependents = new Set<Dependent>();
+	private internalVersion = 0;
+	private readonly keyedObservables = new KeyedObservables<T>();
+	private lastChangedAt?: number;
+	private readonly listeners = new Set<(value: Set<T>) => void>();
+	private readonly pendingEvents = new Array<() => void>();
+	private readonly removeListeners = new Set<(value: T) => void>();
+	private valuesSet: Set<T>;
+}
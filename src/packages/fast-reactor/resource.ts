@@ -0,0 +1,226 @@
+import type { Cleanup } from "types/utility-types";
+import { batch, scheduleSettle } from "./batch";
+import { reactiveBrand } from "./brand";
+import { hasChangedDependencies, recordDependencies } from "./computed";
+import { track } from "./dependency-tracker";
+import { onDispose } from "./scope";
+import { State } from "./state";
+import type { Dependent, Observable, Reactive, ReadonlyReactive, Settleable } from "./types";
+import { asReadonly } from "./views";
+
+export type ResourceFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+/**
+ * Represents an asynchronously computed value. The fetcher is re-run whenever
+ * a reactive it read before its first `await` changes, and any run still in
+ * flight is aborted through its `AbortSignal`. Results of stale runs are
+ * discarded.
+ *
+ * The resource itself is a reactive holding the latest resolved value, so it
+ * can be read by computeds, watched by an `Observer`, or bound with `hydrate`.
+ *
+ * @example
+ *
+ * ```typescript
+ * const cityState = new State("Seattle");
+ * const weather = new Resource(async (signal) => {
+ * 	const city = cityState.get(); // tracked, read before the first await
+ * 	const response = await fetch(`https://example.com/weather/${city}`, { signal });
+ * 	return (await response.json()) as Weather;
+ * });
+ *
+ * Observer.watch(weather.loading, (isLoading) => spinner.toggle(isLoading));
+ * Observer.watch(weather, (value) => value && render(value));
+ * ```
+ *
+ * @template T The type of the resolved value.
+ */
+export class Resource<T> implements Dependent, Reactive<T | undefined>, Settleable {
+	public readonly [reactiveBrand] = true;
+
+	/** The error thrown by the latest run, or `undefined` if it succeeded. */
+	public readonly error: ReadonlyReactive<unknown>;
+
+	/** Whether a run is currently in flight. */
+	public readonly loading: ReadonlyReactive<boolean>;
+
+	/**
+	 * The distance of this resource from the sources it reads. Resources
+	 * refetch after every computed they read has settled.
+	 */
+	public get height(): number {
+		return this.internalHeight;
+	}
+
+	/** A promise that resolves once the latest run has finished. */
+	public get promise(): Promise<void> {
+		return this.currentPromise;
+	}
+
+	public get value(): T | undefined {
+		return this.peek();
+	}
+
+	public set value(value: T | undefined) {
+		this.set(value);
+	}
+
+	public get version(): number {
+		return this.valueState.version;
+	}
+
+	public addDependent(dependent: Dependent): void {
+		this.valueState.addDependent(dependent);
+	}
+
+	/** Aborts any run in flight and stops refetching. */
+	public dispose(): void {
+		if (this.isDestroyed) return;
+
+		this.isDestroyed = true;
+		this.controller?.abort();
+		this.controller = undefined;
+		this.clearDependencies();
+	}
+
+	public get(): T | undefined {
+		return this.valueState.get();
+	}
+
+	/**
+	 * Marks the resource as stale and schedules a refetch once the change has
+	 * finished propagating.
+	 */
+	public invalidate(): void {
+		if (this.isDestroyed || this.isDirty) return;
+
+		this.isDirty = true;
+		scheduleSettle(this);
+	}
+
+	public notifyDependents(): void {
+		this.valueState.notifyDependents();
+	}
+
+	public onChange(callback: (value: T | undefined) => void): Cleanup {
+		return this.valueState.onChange(callback);
+	}
+
+	public peek(): T | undefined {
+		return this.valueState.peek();
+	}
+
+	public read(): T | undefined {
+		return this.get();
+	}
+
+	/**
+	 * Re-runs the fetcher, aborting any run in flight.
+	 *
+	 * @returns A promise that resolves once the new run has finished.
+	 */
+	public refetch(): Promise<void> {
+		return this.run();
+	}
+
+	public removeDependent(dependent: Dependent): void {
+		this.valueState.removeDependent(dependent);
+	}
+
+	/**
+	 * Overwrites the current value locally without refetching, e.g. for
+	 * optimistic updates. The value is replaced again by the next run.
+	 *
+	 * @param value - The new value.
+	 */
+	public set(value: T | undefined): void {
+		this.valueState.set(value);
+	}
+
+	/** Refetches if any of the dependencies read by the last run changed. */
+	public settle(): void {
+		if (this.isDestroyed || !this.isDirty) return;
+
+		if (hasChangedDependencies(this.dependencies)) void this.run();
+		else this.isDirty = false;
+	}
+
+	/**
+	 * Creates a resource and starts fetching immediately.
+	 *
+	 * @param fetcher - The asynchronous function producing the value. Reactives
+	 *   read before its first `await` are tracked as dependencies.
+	 * @param initialValue - The value to hold until the first run resolves.
+	 */
+	public constructor(
+		private readonly fetcher: ResourceFetcher<T>,
+		initialValue?: T,
+	) {
+		this.valueState = new State<T | undefined>(initialValue);
+		this.error = asReadonly(this.errorState);
+		this.loading = asReadonly(this.loadingState);
+		this.currentPromise = this.run();
+		onDispose(() => this.dispose());
+	}
+
+	private clearDependencies(): void {
+		const { dependencies } = this;
+		for (const dependency of dependencies.keys()) dependency.removeDependent(this);
+		dependencies.clear();
+	}
+
+	private run(): Promise<void> {
+		if (this.isDestroyed) return this.currentPromise;
+
+		this.controller?.abort();
+		const controller = new AbortController();
+		this.controller = controller;
+		this.clearDependencies();
+
+		let pending: Promise<T>;
+		try {
+			const { dependencies, result } = track(this, () => this.fetcher(controller.signal));
+			this.internalHeight = recordDependencies(this.dependencies, dependencies);
+			pending = result;
+		} catch (exception) {
+			pending = Promise.reject(exception);
+		}
+
+		this.isDirty = false;
+		this.loadingState.set(true);
+
+		const { errorState, loadingState, valueState } = this;
+		const promise = pending.then(
+			(value): void => {
+				if (this.controller !== controller) return;
+				this.controller = undefined;
+				batch((): void => {
+					valueState.set(value);
+					errorState.set(undefined);
+					loadingState.set(false);
+				});
+			},
+			(exception: unknown): void => {
+				if (this.controller !== controller) return;
+				this.controller = undefined;
+				batch((): void => {
+					errorState.set(exception);
+					loadingState.set(false);
+				});
+			},
+		);
+
+		this.currentPromise = promise;
+		return promise;
+	}
+
+	private controller?: AbortController = undefined;
+	private currentPromise: Promise<void>;
+	private readonly dependencies = new Map<Observable, number>();
+	private readonly errorState = new State<unknown>(undefined);
+	private internalHeight = 0;
+	private isDestroyed = false;
+	private isDirty = false;
+	private readonly loadingState = new State(false);
+	private readonly valueState: State<T | undefined>;
+}
@@ -0,0 +1,84 @@
+/**
+ * Decides when deferred work, such as delivering a change to an `Observer`,
+ * runs.
+ */
+export interface Scheduler {
+	/**
+	 * Queues a task to run.
+	 *
+	 * @param task - The function to run.
+	 */
+	schedule(task: () => void): void;
+}
+
+/** Runs every task immediately. This is the default scheduler. */
+export const syncScheduler: Scheduler = {
+	schedule: (task): void => task(),
+};
+
+/** Runs tasks in a microtask, after the current synchronous code finishes. */
+export const microtaskScheduler: Scheduler = {
+	schedule: (task): void => queueMicrotask(task),
+};
+
+/** Runs tasks with `setImmediate`, once pending I/O callbacks have run. */
+export const immediateScheduler: Scheduler = {
+	schedule: (task): void => {
+		setImmediate(task);
+	},
+};
+
+/**
+ * A scheduler that only runs tasks when {@linkcode ManualScheduler.flush} is
+ * called, so tests can control exactly when deferred work happens.
+ *
+ * @example
+ *
+ * ```typescript
+ * const scheduler = new ManualScheduler();
+ * Observer.watch(limitState, render, { scheduler });
+ *
+ * limitState.set(25);
+ * limitState.set(50);
+ * scheduler.flush(); // renders once, with 50
+ * ```
+ */
+export class ManualScheduler implements Scheduler {
+	/** The number of tasks waiting to run. */
+	public get pendingCount(): number {
+		return this.tasks.length;
+	}
+
+	/** Runs every queued task, including tasks queued while flushing. */
+	public flush(): void {
+		const { tasks } = this;
+		while (tasks.length > 0) tasks.shift()?.();
+	}
+
+	public schedule(task: () => void): void {
+		this.tasks.push(task);
+	}
+
+	private readonly tasks = new Array<() => void>();
+}
+
+let defaultScheduler: Scheduler = syncScheduler;
+
+/**
+ * Gets the scheduler used by observers created without one.
+ *
+ * @returns The default scheduler.
+ */
+export function getDefaultScheduler(): Scheduler {
+	return defaultScheduler;
+}
+
+/**
+ * Sets the scheduler used by observers created from now on without one.
+ * Existing observers keep their scheduler.
+ *
+ * @param scheduler - The new default scheduler.
+ */
+export function setDefaultScheduler(scheduler: Scheduler): void {
+	defaultScheduler = scheduler;
+}
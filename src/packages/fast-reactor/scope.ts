@@ -0,0 +1,75 @@
+import type { Cleanup } from "types/utility-types";
+
+const scopeStack = new Array<Array<Cleanup>>();
+let length = 0;
+
+function disposeAll(cleanups: Array<Cleanup>): void {
+	const pending = cleanups.splice(0);
+	for (let index = pending.length - 1; index >= 0; index -= 1) pending[index]?.();
+}
+
+/**
+ * Checks whether code is currently running inside a scope.
+ *
+ * @returns `true` if disposables created now are owned by a scope.
+ */
+export function hasScope(): boolean {
+	return length > 0;
+}
+
+/**
+ * Registers a cleanup with the current scope. The cleanup runs when the scope
+ * is disposed. Does nothing when no scope is active.
+ *
+ * @param cleanup - The function to run when the scope is disposed.
+ */
+export function onDispose(cleanup: Cleanup): void {
+	if (length > 0) scopeStack[length - 1]?.push(cleanup);
+}
+
+/**
+ * Creates an ownership scope. Every `Computed`, `Effect`, `Resource`,
+ * `Observer` and `hydrate` binding created while the callback runs, as well as
+ * any nested scope, is owned by the scope and torn down when it is disposed,
+ * detaching each of them from the reactives they depend on. Owned values are
+ * disposed in the reverse order they were created.
+ *
+ * If the callback throws, everything created so far is disposed and the error
+ * is rethrown.
+ *
+ * @example
+ *
+ * ```typescript
+ * const dispose = createScope((dispose) => {
+ * 	const doubled = countState.map((count) => count * 2);
+ * 	Observer.watch(doubled, print);
+ * 	return dispose;
+ * });
+ *
+ * // Later, to detach `doubled` and the observer from `countState`:
+ * dispose();
+ * ```
+ *
+ * @template T The type of the result.
+ * @param callback - The function to run inside the scope. It receives the
+ *   function that disposes the scope.
+ * @returns The result of the callback.
+ */
+export function createScope<T>(callback: (dispose: Cleanup) => T): T {
+	const cleanups = new Array<Cleanup>();
+	const dispose = (): void => disposeAll(cleanups);
+	onDispose(dispose);
+
+	scopeStack[length] = cleanups;
+	length += 1;
+
+	try {
+		return callback(dispose);
+	} catch (exception) {
+		dispose();
+		throw exception;
+	} finally {
+		delete scopeStack[length - 1];
+		length -= 1;
+	}
+}
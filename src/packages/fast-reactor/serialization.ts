@@ -0,0 +1,251 @@
+import Option from "classes/option";
+import { z as zod } from "zod/v4";
+import { fromError } from "zod-validation-error/v4";
+import { batch } from "./batch";
+import { unwrap } from "./store";
+
+const CODEC_KEY = "$codec";
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Converts values that JSON cannot represent to and from a JSON-safe form.
+ * Encoded values are written as `{ "$codec": name, "data": encoded }`, so
+ * plain objects with a `$codec` property cannot be serialized.
+ *
+ * @template T The type of the values handled by the codec.
+ */
+export interface Codec<T> {
+	/**
+	 * Rebuilds a value from its encoded form.
+	 *
+	 * @param data - The encoded form.
+	 * @param decode - Decodes nested values.
+	 */
+	decode(data: unknown, decode: (data: unknown) => unknown): T;
+
+	/**
+	 * Converts a value to a JSON-safe form.
+	 *
+	 * @param value - The value to encode.
+	 * @param encode - Encodes nested values.
+	 */
+	encode(value: T, encode: (value: unknown) => unknown): unknown;
+
+	/** Checks whether the codec handles the value. */
+	is(value: unknown): value is T;
+
+	/** The name written alongside encoded values. Must be unique. */
+	readonly name: string;
+}
+
+export const dateCodec: Codec<Date> = {
+	decode: (data) => new Date(data as string),
+	encode: (value) => value.toISOString(),
+	is: (value) => value instanceof Date,
+	name: "Date",
+};
+
+export const mapCodec: Codec<Map<unknown, unknown>> = {
+	decode: (data, decode) =>
+		new Map((data as Array<[unknown, unknown]>).map(([key, value]) => [decode(key), decode(value)])),
+	encode: (value, encode) => [...value].map(([key, entry]) => [encode(key), encode(entry)]),
+	is: (value) => value instanceof Map,
+	name: "Map",
+};
+
+export const optionCodec: Codec<Option<NonNullable<unknown>>> = {
+	decode: (data, decode) => (data === null ? Option.none() : Option.some(decode(data) as NonNullable<unknown>)),
+	encode: (value, encode) => (value.isSome ? encode(value.unwrap()) : null),
+	is: (value) => value instanceof Option,
+	name: "Option",
+};
+
+export const setCodec: Codec<Set<unknown>> = {
+	decode: (data, decode) => new Set((data as Array<unknown>).map(decode)),
+	encode: (value, encode) => [...value].map(encode),
+	is: (value) => value instanceof Set,
+	name: "Set",
+};
+
+/** The codecs used by {@linkcode snapshot} and {@linkcode restore} by default. */
+export const defaultCodecs: ReadonlyArray<Codec<unknown>> = [dateCodec, mapCodec, optionCodec, setCodec];
+
+interface SerializableReactive {
+	peek(): unknown;
+	set(value: never): void;
+}
+
+type StoreEntry = readonly [store: object, setStore: (path: readonly [], value: never) => void];
+
+/**
+ * A named collection of reactives to snapshot or restore, such as `State` and
+ * `ReactiveList`. Stores are registered as the `[store, setStore]` pair
+ * returned by `createStore`.
+ */
+export type SnapshotRegistry = Readonly<Record<string, SerializableReactive | StoreEntry>>;
+
+type RegistryValue<E> = E extends readonly [unknown, (path: readonly [], value: infer V) => void]
+	? Exclude<V, (previous: never) => unknown>
+	: E extends SerializableReactive
+		? ReturnType<E["peek"]>
+		: never;
+
+/**
+ * Options accepted by {@linkcode snapshot} and {@linkcode restore}.
+ *
+ * @template R The type of the registry.
+ */
+export interface SnapshotOptions<R extends SnapshotRegistry> {
+	/**
+	 * Extra codecs, tried before the default codecs. A codec with the same
+	 * name as a default codec replaces it.
+	 */
+	readonly codecs?: ReadonlyArray<Codec<unknown>>;
+
+	/**
+	 * Schemas the restored values must satisfy, by registry name. Only used by
+	 * {@linkcode restore}.
+	 */
+	readonly schemas?: { readonly [K in keyof R]?: zod.ZodType<RegistryValue<R[K]>> };
+}
+
+const isSnapshot = zod.object({
+	values: zod.record(zod.string(), zod.unknown()),
+	version: zod.literal(SNAPSHOT_VERSION),
+});
+
+const isEncodedValue = zod.object({ [CODEC_KEY]: zod.string(), data: zod.unknown() });
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+	const prototype: unknown = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+function resolveCodecs(codecs: ReadonlyArray<Codec<unknown>> | undefined): Map<string, Codec<unknown>> {
+	const resolved = new Map<string, Codec<unknown>>();
+	for (const codec of [...(codecs ?? []), ...defaultCodecs])
+		if (!resolved.has(codec.name)) resolved.set(codec.name, codec);
+	return resolved;
+}
+
+function createEncoder(codecs: Map<string, Codec<unknown>>): (value: unknown) => unknown {
+	const encode = (value: unknown): unknown => {
+		if (value === null || typeof value !== "object") return value;
+
+		for (const codec of codecs.values())
+			if (codec.is(value)) return { [CODEC_KEY]: codec.name, data: codec.encode(value, encode) };
+
+		if (Array.isArray(value)) return value.map(encode);
+		if (isPlainObject(value)) {
+			const encoded: Record<string, unknown> = {};
+			for (const [key, entry] of Object.entries(value)) encoded[key] = encode(entry);
+			return encoded;
+		}
+
+		const exception = new Error(
+			`Cannot serialize ${Object.prototype.toString.call(value)}; register a codec for it.`,
+		);
+		exception.name = "InvalidOperationError";
+		Error.captureStackTrace(exception, encode);
+		throw exception;
+	};
+
+	return encode;
+}
+
+function createDecoder(codecs: Map<string, Codec<unknown>>): (data: unknown) => unknown {
+	const decode = (data: unknown): unknown => {
+		if (data === null || typeof data !== "object") return data;
+		if (Array.isArray(data)) return data.map(decode);
+
+		const result = isEncodedValue.safeParse(data);
+		if (result.success) {
+			const name = result.data[CODEC_KEY];
+			const codec = codecs.get(name);
+			if (codec === undefined) throw new Error(`Unknown codec in snapshot: ${name}`);
+			return codec.decode(result.data.data, decode);
+		}
+
+		const decoded: Record<string, unknown> = {};
+		for (const [key, entry] of Object.entries(data)) decoded[key] = decode(entry);
+		return decoded;
+	};
+
+	return decode;
+}
+
+function isStoreEntry(entry: SerializableReactive | StoreEntry): entry is StoreEntry {
+	return Array.isArray(entry);
+}
+
+/**
+ * Serializes the current values of every reactive in the registry to JSON.
+ * Values are read without subscribing to them.
+ *
+ * @example
+ *
+ * ```typescript
+ * const json = snapshot({ promptResults: promptResultState, settings: createStore(defaults) });
+ * await Bun.write(sessionPath, json);
+ * ```
+ *
+ * @template R The type of the registry.
+ * @param registry - The reactives to serialize, by name.
+ * @param options - The codecs to use.
+ * @returns The JSON snapshot.
+ * @throws {InvalidOperationError} If a value is not JSON-safe and no codec
+ *   handles it.
+ */
+export function snapshot<R extends SnapshotRegistry>(registry: R, options?: SnapshotOptions<R>): string {
+	const encode = createEncoder(resolveCodecs(options?.codecs));
+	const values: Record<string, unknown> = {};
+
+	for (const [name, entry] of Object.entries(registry))
+		values[name] = encode(isStoreEntry(entry) ? unwrap(entry[0]) : entry.peek());
+
+	return JSON.stringify({ values, version: SNAPSHOT_VERSION });
+}
+
+/**
+ * Restores reactives from a snapshot created by {@linkcode snapshot}. Every
+ * value is decoded and validated before anything is written, and the writes
+ * happen in a single {@linkcode batch}, so dependents recompute once and
+ * nothing changes if the snapshot is invalid. Reactives missing from the
+ * snapshot keep their values, and names not in the registry are ignored.
+ *
+ * @template R The type of the registry.
+ * @param registry - The reactives to restore, by name.
+ * @param json - The JSON snapshot.
+ * @param options - The codecs to use and the schemas to validate against.
+ * @throws {ValidationError} If the snapshot or one of its values does not
+ *   match its schema.
+ */
+export function restore<R extends SnapshotRegistry>(registry: R, json: string, options?: SnapshotOptions<R>): void {
+	const result = isSnapshot.safeParse(JSON.parse(json));
+	if (!result.success) throw fromError(result.error);
+
+	const decode = createDecoder(resolveCodecs(options?.codecs));
+	const schemas: Readonly<Record<string, zod.ZodType | undefined>> = options?.schemas ?? {};
+	const { values } = result.data;
+	const writes = new Array<() => void>();
+
+	for (const [name, entry] of Object.entries(registry)) {
+		if (!Object.hasOwn(values, name)) continue;
+
+		let value = decode(values[name]);
+		const schema = schemas[name];
+		if (schema !== undefined) {
+			const valueResult = schema.safeParse(value);
+			if (!valueResult.success)
+				throw fromError(valueResult.error, { prefix: `Invalid snapshot value "${name}"` });
+			value = valueResult.data;
+		}
+
+		if (isStoreEntry(entry)) writes.push((): void => entry[1]([], value as never));
+		else writes.push((): void => entry.set(value as never));
+	}
+
+	batch((): void => {
+		for (const write of writes) write();
+	});
+}
@@ -1,14 +1,28 @@
 import type { Cleanup } from "types/utility-types";
+import { isBatching, propagate, recordWrite } from "./batch";
+import { reactiveBrand } from "./brand";
 import { Computed } from "./computed";
 import { trackDependency } from "./dependency-tracker";
-import type { Dependent, Reactive } from "./types";
-
-function notifyDependents(dependents: Set<Dependent>): void {
+import { strictEqual } from "./equality";
+import type {
+	Debuggable,
+	DebugInfo,
+	Dependent,
+	EqualityFunction,
+	Reactive,
+	ReactiveOptions,
+	Transactional,
+} from "./types";
+import { createDependentSet, type DependentSet } from "./weak-dependents";
+
+function notifyDependents(dependents: DependentSet): void {
 	for (const dependent of [...dependents]) dependent.invalidate();
 }
-function onValueChanged<T>(dependents: Set<Dependent>, listeners: Set<(value: T) => void>, value: T): void {
-	notifyDependents(dependents);
-	for (const listener of listeners) listener(value);
+function onValueChanged<T>(dependents: DependentSet, listeners: Set<(value: T) => void>, value: T): void {
+	propagate((): void => {
+		notifyDependents(dependents);
+		for (const listener of listeners) listener(value);
+	});
 }
 
 /**
@@ -17,7 +31,9 @@ function onValueChanged<T>(dependents: Set<Dependent>, listeners: Set<(value: T)
  *
  * @template T The type of the value stored in the state.
  */
-export class State<T> implements Reactive<T> {
+export class State<T> implements Debuggable, Reactive<T>, Transactional<T> {
+	public readonly [reactiveBrand] = true;
+
 	public get value(): T {
 		return this.peek();
 	}
@@ -26,10 +42,25 @@ export class State<T> implements Reactive<T> {
 		this.set(items);
 	}
 
+	public get version(): number {
+		return this.internalVersion;
+	}
+
 	public addDependent(dependent: Dependent): void {
 		this.dependents.add(dependent);
 	}
 
+	/**
+	 * Delivers the notifications deferred by a batch, if the value differs
+	 * from the one it had before the batch.
+	 *
+	 * @param snapshot - The value before the first write in the batch.
+	 */
+	public commit(snapshot: T): void {
+		const { internalValue } = this;
+		if (!this.equals(snapshot, internalValue)) onValueChanged(this.dependents, this.listeners, internalValue);
+	}
+
 	/**
 	 * Creates a derived boolean state that tests a condition on this state's
 	 * value.
@@ -48,6 +79,17 @@ export class State<T> implements Reactive<T> {
 		return this.internalValue;
 	}
 
+	public getDebugInfo(): DebugInfo {
+		return {
+			dependencies: [],
+			dependents: [...this.dependents],
+			kind: "State",
+			lastChangedAt: this.lastChangedAt,
+			name: this.debugName,
+			recomputeCount: 0,
+		};
+	}
+
 	/**
 	 * Creates a derived state that transforms the value of this state.
 	 *
@@ -61,7 +103,10 @@ export class State<T> implements Reactive<T> {
 	}
 
 	public notifyDependents(): void {
-		notifyDependents(this.dependents);
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
+		const { dependents } = this;
+		propagate((): void => notifyDependents(dependents));
 	}
 
 	public onChange(callback: (value: T) => void): Cleanup {
@@ -72,6 +117,8 @@ export class State<T> implements Reactive<T> {
 
 	/** Called when the value changes. */
 	public onValueChanged(): void {
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
 		onValueChanged(this.dependents, this.listeners, this.internalValue);
 	}
 
@@ -87,10 +134,29 @@ export class State<T> implements Reactive<T> {
 		this.dependents.delete(dependent);
 	}
 
+	/**
+	 * Restores the value captured before a batch without notifying listeners.
+	 * Dependents are invalidated, since they may have read the discarded value
+	 * inside the batch.
+	 *
+	 * @param snapshot - The value before the first write in the batch.
+	 */
+	public restore(snapshot: T): void {
+		this.internalValue = snapshot;
+		this.notifyDependents();
+	}
+
 	public set(value: T): void {
-		if (this.internalValue === value) return;
+		if (this.equals(this.internalValue, value)) return;
+		recordWrite(this);
 		this.internalValue = value;
-		onValueChanged(this.dependents, this.listeners, value);
+		this.internalVersion += 1;
+		this.lastChangedAt = Date.now();
+		if (!isBatching()) onValueChanged(this.dependents, this.listeners, value);
+	}
+
+	public snapshot(): T {
+		return this.internalValue;
 	}
 
 	public write(value: T): void {
@@ -102,12 +168,20 @@ export class State<T> implements Reactive<T> {
 	 *
 	 * @param initialValue - What the value of the state should be when
 	 *   initialized.
+	 * @param options - Options controlling how changes are detected.
 	 */
-	public constructor(initialValue: T) {
+	public constructor(initialValue: T, options?: ReactiveOptions<T>) {
 		this.internalValue = initialValue;
+		this.equals = options?.equals ?? strictEqual;
+		this.debugName = options?.debugName;
+		this.dependents = createDependentSet(options?.weakDependents);
 	}
 
-	private readonly dependents = new Set<Dependent>();
+	private readonly debugName?: string;
+	private readonly dependents: DependentSet;
+	private readonly equals: EqualityFunction<T>;
 	private internalValue: T;
+	private internalVersion = 0;
+	private lastChangedAt?: number;
 	private readonly listeners = new Set<(value: T) => void>();
 }
@@ -0,0 +1,292 @@
+import { isBatching, propagate, recordWrite } from "./batch";
+import { KeyedObservables } from "./keyed-observables";
+import type { Transactional } from "./types";
+
+type PathKey = number | string;
+type Path = ReadonlyArray<PathKey>;
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * A read-only, deeply tracked view of a store's contents.
+ *
+ * @template T The type of the store's contents.
+ */
+export type Store<T> = T extends (...parameters: never) => unknown
+	? T
+	: T extends object
+		? { readonly [K in keyof T]: Store<T[K]> }
+		: T;
+
+/**
+ * Every path that can be passed to a {@linkcode SetStore} function, up to a
+ * depth of seven properties.
+ *
+ * @template T The type of the store's contents.
+ */
+export type StorePath<T, D extends number = 7> = [D] extends [never]
+	? never
+	: T extends ReadonlyArray<infer E>
+		? readonly [number] | readonly [number, ...StorePath<E, Depth[D]>]
+		: T extends object
+			? {
+					[K in keyof T & PathKey]: readonly [K] | readonly [K, ...StorePath<T[K], Depth[D]>];
+				}[keyof T & PathKey]
+			: never;
+
+/**
+ * The type of the value found at a path in a store.
+ *
+ * @template T The type of the store's contents.
+ * @template P The path.
+ */
+export type PathValue<T, P extends Path> = P extends readonly [infer Head, ...infer Rest extends Path]
+	? Head extends keyof T
+		? PathValue<T[Head], Rest>
+		: never
+	: T;
+
+/**
+ * Updates a store, replacing the value at a path with a new value or with the
+ * result of an updater function.
+ *
+ * @template T The type of the store's contents.
+ */
+export interface SetStore<T> {
+	<P extends StorePath<T>>(path: P, value: ((previous: PathValue<T, P>) => PathValue<T, P>) | PathValue<T, P>): void;
+	(path: readonly [], value: ((previous: T) => T) | T): void;
+}
+
+function isTraversable(value: unknown): value is Record<PathKey, unknown> {
+	if (value === null || typeof value !== "object") return false;
+	if (Array.isArray(value)) return true;
+
+	const prototype: unknown = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+function encodePath(path: Path): string {
+	return JSON.stringify(path.map(String));
+}
+
+function decodePath(key: string): Path {
+	return JSON.parse(key) as Path;
+}
+
+function resolvePath(root: unknown, path: Path): unknown {
+	let current = root;
+	for (const key of path) {
+		if (!isTraversable(current)) return undefined;
+		current = current[key];
+	}
+
+	return current;
+}
+
+function setPath(target: unknown, path: Path, index: number, value: unknown): unknown {
+	if (index === path.length) return value;
+
+	const key = path[index] as PathKey;
+	const container = isTraversable(target) ? target : {};
+	const child = container[key];
+	const next = setPath(child, path, index + 1, value);
+	if (container === target && Object.is(child, next)) return target;
+
+	const copy = (Array.isArray(container) ? [...container] : { ...container }) as Record<PathKey, unknown>;
+	copy[key] = next;
+	return copy;
+}
+
+function haveSameKeys(previous: unknown, next: unknown): boolean {
+	if (!isTraversable(previous) || !isTraversable(next)) return Object.is(previous, next);
+
+	const previousKeys = Object.keys(previous);
+	const nextKeys = Object.keys(next);
+	return previousKeys.length === nextKeys.length && previousKeys.every((key, index) => key === nextKeys[index]);
+}
+
+function hasValueChanged(previous: unknown, next: unknown): boolean {
+	// Nested objects are replaced on every write below them, but their
+	// properties are tracked individually, so only a change of kind counts.
+	if (isTraversable(previous) && isTraversable(next)) return Array.isArray(previous) !== Array.isArray(next);
+	return !Object.is(previous, next);
+}
+
+function throwReadonly(): never {
+	const exception = new Error("Stores cannot be mutated directly. Use the setter returned by createStore.");
+	exception.name = "InvalidOperationError";
+	Error.captureStackTrace(exception, throwReadonly);
+	throw exception;
+}
+
+const unwrappers = new WeakMap<object, () => unknown>();
+
+class StoreRoot<T> implements Transactional<T> {
+	/**
+	 * Invalidates the paths whose values changed since the batch started.
+	 *
+	 * @param snapshot - The contents before the first write in the batch.
+	 */
+	public commit(snapshot: T): void {
+		propagate((): void => this.invalidateChanges(snapshot));
+	}
+
+	public getProxy(path: Path): object {
+		const key = encodePath(path);
+		const isArray = Array.isArray(this.resolve(path));
+		const cached = this.proxies.get(key);
+		if (cached !== undefined && Array.isArray(cached.target) === isArray) return cached.proxy;
+
+		const target = isArray ? new Array<unknown>() : {};
+		const proxy = new Proxy(target, this.createHandler(path));
+		unwrappers.set(proxy, () => this.resolve(path));
+		this.proxies.set(key, { proxy, target });
+		return proxy;
+	}
+
+	public resolve(path: Path): unknown {
+		return resolvePath(this.root, path);
+	}
+
+	/**
+	 * Restores the contents captured before a batch, invalidating the paths
+	 * that were read while they held the discarded contents.
+	 *
+	 * @param snapshot - The contents before the first write in the batch.
+	 */
+	public restore(snapshot: T): void {
+		const previous = this.root;
+		this.root = snapshot;
+		propagate((): void => this.invalidateChanges(previous));
+	}
+
+	public set(path: Path, value: unknown): void {
+		const previous = this.root;
+		const next = setPath(previous, path, 0, value) as T;
+		if (Object.is(previous, next)) return;
+
+		recordWrite(this);
+		this.root = next;
+		if (!isBatching()) propagate((): void => this.invalidateChanges(previous));
+	}
+
+	public snapshot(): T {
+		return this.root;
+	}
+
+	public constructor(private root: T) {}
+
+	private createHandler(path: Path): ProxyHandler<object> {
+		return {
+			defineProperty: throwReadonly,
+			deleteProperty: throwReadonly,
+			get: (target, key): unknown => {
+				const value = this.resolve(path);
+				if (typeof key === "symbol" || !isTraversable(value)) return Reflect.get(target, key);
+
+				const childPath = [...path, key];
+				this.values.track(encodePath(childPath));
+				const child = value[key];
+				return isTraversable(child) ? this.getProxy(childPath) : child;
+			},
+			getOwnPropertyDescriptor: (target, key): PropertyDescriptor | undefined => {
+				const value = this.resolve(path);
+				if (typeof key === "symbol" || !isTraversable(value))
+					return Reflect.getOwnPropertyDescriptor(target, key);
+
+				this.values.track(encodePath([...path, key]));
+				const descriptor = Reflect.getOwnPropertyDescriptor(value, key);
+				if (descriptor === undefined) return undefined;
+
+				const isLength = Array.isArray(value) && key === "length";
+				return { ...descriptor, configurable: !isLength, writable: isLength };
+			},
+			has: (target, key): boolean => {
+				const value = this.resolve(path);
+				if (typeof key === "symbol" || !isTraversable(value)) return Reflect.has(target, key);
+
+				this.values.track(encodePath([...path, key]));
+				return key in value;
+			},
+			ownKeys: (): Array<string | symbol> => {
+				const value = this.resolve(path);
+				this.shapes.track(encodePath(path));
+				return isTraversable(value) ? Reflect.ownKeys(value) : [];
+			},
+			preventExtensions: throwReadonly,
+			set: throwReadonly,
+			setPrototypeOf: throwReadonly,
+		};
+	}
+
+	private invalidateChanges(previous: T): void {
+		const { root, shapes, values } = this;
+		const changedValues = [...values.keys()].filter((key) => {
+			const path = decodePath(key);
+			return hasValueChanged(resolvePath(previous, path), resolvePath(root, path));
+		});
+		const changedShapes = [...shapes.keys()].filter((key) => {
+			const path = decodePath(key);
+			return !haveSameKeys(resolvePath(previous, path), resolvePath(root, path));
+		});
+
+		for (const key of changedValues) values.invalidate(key);
+		for (const key of changedShapes) shapes.invalidate(key);
+	}
+
+	private readonly proxies = new Map<string, { readonly proxy: object; readonly target: object }>();
+	private readonly shapes = new KeyedObservables<string>();
+	private readonly values = new KeyedObservables<string>();
+}
+
+/**
+ * Creates a store for a plain object. Reading a property of the store inside a
+ * {@linkcode Computed}, {@linkcode Effect} or other tracked computation only
+ * subscribes to that property path, so a computation reading `store.limit` is
+ * not re-run when `store.weights` changes. Nested objects and arrays are
+ * returned as stores of their own.
+ *
+ * The store is read-only; it is updated immutably with the returned setter,
+ * which copies every object along the path and leaves the rest shared. Writes
+ * made in a {@linkcode batch} notify once when the batch exits and are rolled
+ * back if it throws.
+ *
+ * @example
+ *
+ * ```typescript
+ * const [settings, setSettings] = createStore({ limit: 10, weights: { cost: 1, safety: 1 } });
+ * const limit = new Computed(() => settings.limit);
+ *
+ * setSettings(["weights", "cost"], 2); // `limit` does not recompute
+ * setSettings(["limit"], (previous) => previous + 5); // `limit` recomputes
+ *
+ * hydrate(view, { limit }); // bind store paths through a Computed
+ * ```
+ *
+ * @template T The type of the store's contents.
+ * @param initialValue - The plain object or array the store starts with.
+ * @returns The store and the function used to update it.
+ */
+export function createStore<T extends object>(initialValue: T): [store: Store<T>, setStore: SetStore<T>] {
+	const root = new StoreRoot(initialValue);
+	const setStore = (path: Path, value: unknown): void => {
+		const next =
+			typeof value === "function" ? (value as (previous: unknown) => unknown)(root.resolve(path)) : value;
+		root.set(path, next);
+	};
+
+	return [root.getProxy([]) as Store<T>, setStore as SetStore<T>];
+}
+
+/**
+ * Gets the plain, untracked contents of a store or of a nested object read from
+ * one.
+ *
+ * @template T The type of the store's contents.
+ * @param store - The store to unwrap.
+ * @returns The current contents. Returns the argument unchanged if it is not a
+ *   store.
+ */
+export function unwrap<T>(store: Store<T>): T {
+	const unwrapper = typeof store === "object" && store !== null ? unwrappers.get(store) : undefined;
+	return (unwrapper === undefined ? store : unwrapper()) as T;
+}
@@ -0,0 +1,39 @@
+import type { Debuggable } from "./types";
+
+/**
+ * Runs a full garbage collection. Waits a turn first, because objects only
+ * referenced weakly stay alive until the turn that last dereferenced them
+ * ends.
+ *
+ * @returns A promise that resolves once the collection has run.
+ */
+export async function collectGarbageAsync(): Promise<void> {
+	await Bun.sleep(0);
+	Bun.gc(true);
+}
+
+/**
+ * Asserts how many dependents of a source survive a garbage collection.
+ * Intended for tests checking that sources created with `weakDependents` do
+ * not keep unreferenced computeds alive.
+ *
+ * @example
+ *
+ * ```typescript
+ * const promptResultState = new State(undefined, { weakDependents: true });
+ * createReport(promptResultState); // reads it from computeds it drops
+ * await expectLiveDependentsAsync(promptResultState, 0);
+ * ```
+ *
+ * @param source - The source to check.
+ * @param expected - The number of dependents expected to be alive.
+ * @returns A promise that resolves once the count has been checked.
+ * @throws {Error} If the number of live dependents differs.
+ */
+export async function expectLiveDependentsAsync(source: Debuggable, expected: number): Promise<void> {
+	await collectGarbageAsync();
+
+	const { dependents, name } = source.getDebugInfo();
+	if (dependents.length !== expected)
+		throw new Error(`Expected ${expected} live dependents of ${name ?? "the source"}, found ${dependents.length}.`);
+}
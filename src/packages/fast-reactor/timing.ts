@@ -0,0 +1,355 @@
+import type { Cleanup } from "types/utility-types";
+import { reactiveBrand } from "./brand";
+import { onDispose } from "./scope";
+import { State } from "./state";
+import type { Dependent, ReadonlyReactive } from "./types";
+
+/** The source of time used by {@linkcode debounced}, {@linkcode throttled} and {@linkcode delayed}. */
+export interface Clock {
+	/**
+	 * Cancels a callback scheduled with {@linkcode Clock.setTimeout}.
+	 *
+	 * @param handle - The handle returned when the callback was scheduled.
+	 */
+	clearTimeout(handle: unknown): void;
+
+	/** Gets the current time in milliseconds. */
+	now(): number;
+
+	/**
+	 * Schedules a callback to run after a delay.
+	 *
+	 * @param callback - The function to run.
+	 * @param milliseconds - The delay.
+	 * @returns A handle that can be passed to {@linkcode Clock.clearTimeout}.
+	 */
+	setTimeout(callback: () => void, milliseconds: number): unknown;
+}
+
+/** The clock backed by `Date.now` and the global timer functions. */
+export const systemClock: Clock = {
+	clearTimeout: (handle): void => clearTimeout(handle as ReturnType<typeof setTimeout>),
+	now: (): number => Date.now(),
+	setTimeout: (callback, milliseconds): unknown => setTimeout(callback, milliseconds),
+};
+
+/**
+ * A clock whose time only moves when {@linkcode ManualClock.advance} is
+ * called, so time-based reactives can be tested without waiting.
+ *
+ * @example
+ *
+ * ```typescript
+ * const clock = new ManualClock();
+ * const query = debounced(queryState, 300, { clock });
+ *
+ * queryState.set("Seattle");
+ * clock.advance(300); // `query` is now "Seattle"
+ * ```
+ */
+export class ManualClock implements Clock {
+	/**
+	 * Moves time forward, running every callback that becomes due in the
+	 * order they are due.
+	 *
+	 * @param milliseconds - How far to move time.
+	 */
+	public advance(milliseconds: number): void {
+		const target = this.time + milliseconds;
+		const { timers } = this;
+		for (;;) {
+			const due = [...timers].filter((timer) => timer.time <= target).sort((a, b) => a.time - b.time)[0];
+			if (due === undefined) break;
+
+			timers.delete(due);
+			this.time = due.time;
+			due.callback();
+		}
+
+		this.time = target;
+	}
+
+	public clearTimeout(handle: unknown): void {
+		this.timers.delete(handle as ManualTimer);
+	}
+
+	public now(): number {
+		return this.time;
+	}
+
+	public setTimeout(callback: () => void, milliseconds: number): unknown {
+		const timer: ManualTimer = { callback, time: this.time + milliseconds };
+		this.timers.add(timer);
+		return timer;
+	}
+
+	/**
+	 * Creates a new manual clock.
+	 *
+	 * @param time - The time the clock starts at.
+	 */
+	public constructor(private time = 0) {}
+
+	private readonly timers = new Set<ManualTimer>();
+}
+
+interface ManualTimer {
+	readonly callback: () => void;
+	readonly time: number;
+}
+
+/**
+ * Options accepted by {@linkcode debounced}, {@linkcode throttled} and
+ * {@linkcode delayed}.
+ */
+export interface TimingOptions {
+	/** The clock measuring time. Defaults to {@linkcode systemClock}. */
+	readonly clock?: Clock;
+}
+
+/**
+ * A read-only reactive that follows another reactive on a delay. Reading it
+ * inside a tracked computation subscribes to it like any other reactive.
+ *
+ * @template T The type of the value.
+ */
+export abstract class TimedReactive<T> implements ReadonlyReactive<T> {
+	public readonly [reactiveBrand] = true;
+
+	public get value(): T {
+		return this.peek();
+	}
+
+	/** Whether the reactive has been disposed. */
+	public get isDisposed(): boolean {
+		return this.isDestroyed;
+	}
+
+	public get version(): number {
+		return this.valueState.version;
+	}
+
+	public addDependent(dependent: Dependent): void {
+		this.valueState.addDependent(dependent);
+	}
+
+	/**
+	 * Stops following the source and cancels every pending update. Also called
+	 * when the enclosing scope is disposed.
+	 */
+	public dispose(): void {
+		if (this.isDestroyed) return;
+
+		this.isDestroyed = true;
+		this.stopListening();
+		for (const handle of this.handles) this.clock.clearTimeout(handle);
+		this.handles.clear();
+	}
+
+	public get(): T {
+		return this.valueState.get();
+	}
+
+	public notifyDependents(): void {
+		this.valueState.notifyDependents();
+	}
+
+	public onChange(callback: (value: T) => void): Cleanup {
+		return this.valueState.onChange(callback);
+	}
+
+	public peek(): T {
+		return this.valueState.peek();
+	}
+
+	public read(): T {
+		return this.get();
+	}
+
+	public removeDependent(dependent: Dependent): void {
+		this.valueState.removeDependent(dependent);
+	}
+
+	protected constructor(source: ReadonlyReactive<T>, options: TimingOptions | undefined) {
+		this.clock = options?.clock ?? systemClock;
+		// Every update follows a change of the source, so it always notifies,
+		// even when a list hands over the same array again.
+		this.valueState = new State(source.peek(), { equals: () => false });
+		this.stopListening = source.onChange((value): void => this.onSourceChanged(value));
+		onDispose(() => this.dispose());
+	}
+
+	/**
+	 * Runs a callback after a delay, unless the reactive is disposed first.
+	 *
+	 * @param callback - The function to run.
+	 * @param milliseconds - The delay.
+	 * @returns The handle of the timer.
+	 */
+	protected after(callback: () => void, milliseconds: number): unknown {
+		const handle = this.clock.setTimeout((): void => {
+			this.handles.delete(handle);
+			callback();
+		}, milliseconds);
+		this.handles.add(handle);
+		return handle;
+	}
+
+	/**
+	 * Cancels a timer started with {@linkcode TimedReactive.after}.
+	 *
+	 * @param handle - The handle of the timer.
+	 */
+	protected cancel(handle: unknown): void {
+		this.clock.clearTimeout(handle);
+		this.handles.delete(handle);
+	}
+
+	/** Called with every new value of the source. */
+	protected abstract onSourceChanged(value: T): void;
+
+	/**
+	 * Replaces the current value, notifying dependents and listeners.
+	 *
+	 * @param value - The new value.
+	 */
+	protected update(value: T): void {
+		this.valueState.set(value);
+	}
+
+	protected readonly clock: Clock;
+	private readonly handles = new Set<unknown>();
+	private isDestroyed = false;
+	private readonly stopListening: Cleanup;
+	private readonly valueState: State<T>;
+}
+
+class DebouncedReactive<T> extends TimedReactive<T> {
+	public constructor(
+		source: ReadonlyReactive<T>,
+		private readonly milliseconds: number,
+		options: TimingOptions | undefined,
+	) {
+		super(source, options);
+	}
+
+	protected onSourceChanged(value: T): void {
+		if (this.handle !== undefined) this.cancel(this.handle);
+		this.handle = this.after((): void => {
+			this.handle = undefined;
+			this.update(value);
+		}, this.milliseconds);
+	}
+
+	private handle?: unknown;
+}
+
+class ThrottledReactive<T> extends TimedReactive<T> {
+	public constructor(
+		source: ReadonlyReactive<T>,
+		private readonly milliseconds: number,
+		options: TimingOptions | undefined,
+	) {
+		super(source, options);
+	}
+
+	protected onSourceChanged(value: T): void {
+		this.latestValue = value;
+		if (this.isWaiting) return;
+
+		const elapsed = this.clock.now() - this.lastUpdatedAt;
+		if (elapsed >= this.milliseconds) this.flush();
+		else {
+			this.isWaiting = true;
+			this.after((): void => {
+				this.isWaiting = false;
+				this.flush();
+			}, this.milliseconds - elapsed);
+		}
+	}
+
+	private flush(): void {
+		this.lastUpdatedAt = this.clock.now();
+		this.update(this.latestValue as T);
+	}
+
+	private isWaiting = false;
+	private lastUpdatedAt = Number.NEGATIVE_INFINITY;
+	private latestValue?: T;
+}
+
+class DelayedReactive<T> extends TimedReactive<T> {
+	public constructor(
+		source: ReadonlyReactive<T>,
+		private readonly milliseconds: number,
+		options: TimingOptions | undefined,
+	) {
+		super(source, options);
+	}
+
+	protected onSourceChanged(value: T): void {
+		this.after((): void => this.update(value), this.milliseconds);
+	}
+}
+
+/**
+ * Creates a reactive that takes the value of the source once the source has
+ * not changed for the specified time.
+ *
+ * @example
+ *
+ * ```typescript
+ * const changedPath = debounced(watchedPathState, 250);
+ * Observer.watch(changedPath, (path) => void reloadAsync(path));
+ * ```
+ *
+ * @template T The type of the value.
+ * @param reactive - The source.
+ * @param milliseconds - How long the source must stay unchanged.
+ * @param options - The clock to use.
+ * @returns A read-only reactive starting with the current value of the source.
+ */
+export function debounced<T>(
+	reactive: ReadonlyReactive<T>,
+	milliseconds: number,
+	options?: TimingOptions,
+): TimedReactive<T> {
+	return new DebouncedReactive(reactive, milliseconds, options);
+}
+
+/**
+ * Creates a reactive that takes the value of the source at most once per
+ * interval. The first change is applied immediately and the latest change
+ * within an interval is applied when it ends.
+ *
+ * @template T The type of the value.
+ * @param reactive - The source.
+ * @param milliseconds - The minimum time between updates.
+ * @param options - The clock to use.
+ * @returns A read-only reactive starting with the current value of the source.
+ */
+export function throttled<T>(
+	reactive: ReadonlyReactive<T>,
+	milliseconds: number,
+	options?: TimingOptions,
+): TimedReactive<T> {
+	return new ThrottledReactive(reactive, milliseconds, options);
+}
+
+/**
+ * Creates a reactive that takes every value of the source after the specified
+ * delay.
+ *
+ * @template T The type of the value.
+ * @param reactive - The source.
+ * @param milliseconds - The delay.
+ * @param options - The clock to use.
+ * @returns A read-only reactive starting with the current value of the source.
+ */
+export function delayed<T>(
+	reactive: ReadonlyReactive<T>,
+	milliseconds: number,
+	options?: TimingOptions,
+): TimedReactive<T> {
+	return new DelayedReactive(reactive, milliseconds, options);
+}
@@ -1,4 +1,5 @@
 import type { Cleanup } from "types/utility-types";
+import type { reactiveBrand } from "./brand";
 
 export type ArrayPredicate<T extends NonNullable<unknown>, Returns> = (
 	value: T,
@@ -6,6 +7,67 @@ export type ArrayPredicate<T extends NonNullable<unknown>, Returns> = (
 	array: ReadonlyArray<T>,
 ) => Returns;
 
+/**
+ * Decides whether two values are equal. Reactives only notify dependents and
+ * listeners when the comparator reports a change.
+ */
+export type EqualityFunction<T> = (previous: T, next: T) => boolean;
+
+/**
+ * Options accepted by `State` and `Computed`.
+ *
+ * @template T The type of the value stored in the reactive.
+ */
+export interface ReactiveOptions<T> {
+	/**
+	 * A name identifying the reactive in the graphs returned by
+	 * `DependencyTracker.inspect`.
+	 */
+	readonly debugName?: string;
+
+	/**
+	 * Decides whether a new value differs from the previous one. Defaults to
+	 * strict equality.
+	 */
+	readonly equals?: EqualityFunction<T>;
+
+	/**
+	 * Whether to hold dependents weakly, so computeds and effects that are no
+	 * longer referenced anywhere else can be garbage collected. Useful for
+	 * long-lived sources read by many short-lived computeds. A dependent that
+	 * is collected stops being notified, so keep a reference to every effect
+	 * that must keep running. Defaults to `false`.
+	 */
+	readonly weakDependents?: boolean;
+}
+
+/** Debugging information reported by a node of the dependency graph. */
+export interface DebugInfo {
+	/** The observables the node currently reads. */
+	readonly dependencies: ReadonlyArray<Observable>;
+
+	/** The dependents currently reading the node. */
+	readonly dependents: ReadonlyArray<Dependent>;
+
+	/** The kind of node, such as `"State"` or `"Computed"`. */
+	readonly kind: string;
+
+	/** When the value last changed, in milliseconds since the epoch. */
+	readonly lastChangedAt: number | undefined;
+
+	/** The name given through the `debugName` option. */
+	readonly name: string | undefined;
+
+	/** How many times the node has recomputed or re-run. */
+	readonly recomputeCount: number;
+}
+
+/** Interface for nodes of the dependency graph that can describe themselves. */
+export interface Debuggable {
+	/** Gets the node's current debugging information. */
+	getDebugInfo(): DebugInfo;
+}
+
 /** Interface for objects that depend on observables. */
 export interface Dependent {
 	/**
@@ -22,6 +84,28 @@ export interface Observable {
 
 	/** Removes a dependent from this observable. */
 	removeDependent(dependent: Dependent): void;
+
+	/**
+	 * A counter that is incremented every time the observable's value
+	 * changes. Dependents compare it against the version they last read to
+	 * decide whether they need to recompute.
+	 */
+	readonly version: number;
+}
+
+/**
+ * Interface for dependents that bring themselves up to date once a change has
+ * finished propagating through the dependency graph.
+ */
+export interface Settleable {
+	/**
+	 * The distance of the dependent from the sources it reads. Dependents with
+	 * a lower height settle first.
+	 */
+	readonly height: number;
+
+	/** Brings the dependent up to date and delivers its change notifications. */
+	settle(): void;
 }
 
 /** Interface for objects that can notify their dependents of changes. */
@@ -31,11 +115,14 @@ export interface Notifiable {
 }
 
 /**
- * Represents a reactive value that can be observed.
+ * Represents a reactive value that can be observed but not set.
  *
  * @template T The type of the value stored in the reactive.
  */
-export interface Reactive<T> extends Notifiable, Observable {
+export interface ReadonlyReactive<T> extends Notifiable, Observable {
+	/** Marks the object as a reactive. */
+	readonly [reactiveBrand]: true;
+
 	/** Gets the current value. */
 	get(): T;
 
@@ -50,9 +137,19 @@ export interface Reactive<T> extends Notifiable, Observable {
 	/** Gets the current value without tracking dependencies. */
 	peek(): T;
 
-	/** Alias for {@linkcode Reactive.get}. */
+	/** Alias for {@linkcode ReadonlyReactive.get}. */
 	read(): T;
 
+	/** The current value. Alias for {@linkcode ReadonlyReactive.peek}. */
+	readonly value: T;
+}
+
+/**
+ * Represents a reactive value that can be observed.
+ *
+ * @template T The type of the value stored in the reactive.
+ */
+export interface Reactive<T> extends ReadonlyReactive<T> {
 	/**
 	 * Sets the current value.
 	 *
@@ -87,6 +184,33 @@ export interface WritableReactive<T> extends Reactive<T> {
 	write(value: T): void;
 }
 
+/**
+ * Interface for sources whose notifications can be deferred and whose writes
+ * can be rolled back by a batch.
+ *
+ * @template S The type of the snapshot captured before the first write.
+ */
+export interface Transactional<S> {
+	/**
+	 * Delivers the notifications that were deferred since the snapshot was
+	 * captured.
+	 *
+	 * @param snapshot - The snapshot captured before the first write.
+	 */
+	commit(snapshot: S): void;
+
+	/**
+	 * Restores the source to the snapshot, discarding any deferred
+	 * notifications.
+	 *
+	 * @param snapshot - The snapshot captured before the first write.
+	 */
+	restore(snapshot: S): void;
+
+	/** Captures the current contents of the source. */
+	snapshot(): S;
+}
+
 export interface Tracked<T> {
 	readonly dependencies: Set<Observable>;
 	readonly result: T;
@@ -0,0 +1,184 @@
+import type { Cleanup } from "types/utility-types";
+import { reactiveBrand } from "./brand";
+import { Computed } from "./computed";
+import type { Dependent, ReadonlyReactive, WritableReactive } from "./types";
+
+class ReadonlyView<T> implements ReadonlyReactive<T> {
+	public readonly [reactiveBrand] = true;
+
+	public get value(): T {
+		return this.source.peek();
+	}
+
+	public get version(): number {
+		return this.source.version;
+	}
+
+	public addDependent(dependent: Dependent): void {
+		this.source.addDependent(dependent);
+	}
+
+	public get(): T {
+		return this.source.get();
+	}
+
+	public notifyDependents(): void {
+		this.source.notifyDependents();
+	}
+
+	public onChange(callback: (value: T) => void): Cleanup {
+		return this.source.onChange(callback);
+	}
+
+	public peek(): T {
+		return this.source.peek();
+	}
+
+	public read(): T {
+		return this.source.get();
+	}
+
+	public removeDependent(dependent: Dependent): void {
+		this.source.removeDependent(dependent);
+	}
+
+	public constructor(private readonly source: ReadonlyReactive<T>) {}
+}
+
+/**
+ * A writable reactive focusing on part of the value of another reactive. See
+ * {@linkcode lens}.
+ *
+ * @template S The type of the source value.
+ * @template T The type of the focused part.
+ */
+export class Lens<S, T> implements WritableReactive<T> {
+	public readonly [reactiveBrand] = true;
+
+	public get value(): T {
+		return this.peek();
+	}
+
+	public set value(value: T) {
+		this.set(value);
+	}
+
+	public get version(): number {
+		return this.part.version;
+	}
+
+	public addDependent(dependent: Dependent): void {
+		this.part.addDependent(dependent);
+	}
+
+	/**
+	 * Stops following the source. Also called when the enclosing scope is
+	 * disposed.
+	 */
+	public dispose(): void {
+		this.part.dispose();
+	}
+
+	public get(): T {
+		return this.part.get();
+	}
+
+	public notifyDependents(): void {
+		this.part.notifyDependents();
+	}
+
+	public onChange(callback: (value: T) => void): Cleanup {
+		return this.part.onChange(callback);
+	}
+
+	public peek(): T {
+		return this.part.peek();
+	}
+
+	public read(): T {
+		return this.get();
+	}
+
+	public removeDependent(dependent: Dependent): void {
+		this.part.removeDependent(dependent);
+	}
+
+	/**
+	 * Replaces the focused part, writing a new source value built by the
+	 * setter.
+	 *
+	 * @param value - The new part.
+	 */
+	public set(value: T): void {
+		const { source } = this;
+		source.set(this.setter(source.peek(), value));
+	}
+
+	public write(value: T): void {
+		this.set(value);
+	}
+
+	public constructor(
+		private readonly source: WritableReactive<S>,
+		getter: (value: S) => T,
+		private readonly setter: (value: S, part: T) => S,
+	) {
+		this.part = new Computed((): T => getter(source.get()));
+	}
+
+	private readonly part: Computed<T>;
+}
+
+/**
+ * Exposes a reactive without the ability to set it, e.g. to hand a `State` to
+ * consumers that must only read it. The view has no `set` method at all, and
+ * reading it subscribes to the underlying reactive.
+ *
+ * @example
+ *
+ * ```typescript
+ * const promptResultState = new State<PromptResult | undefined>(undefined);
+ * export const promptResult = asReadonly(promptResultState);
+ * ```
+ *
+ * @template T The type of the value.
+ * @param reactive - The reactive to expose.
+ * @returns A read-only view of the reactive.
+ */
+export function asReadonly<T>(reactive: ReadonlyReactive<T>): ReadonlyReactive<T> {
+	return new ReadonlyView(reactive);
+}
+
+/**
+ * Creates a writable reactive focusing on part of the value of another
+ * reactive. Reading the lens only subscribes to that part, so dependents are
+ * not notified when other parts of the source change. Writing the lens writes
+ * a new source value built by the setter, which must not mutate the previous
+ * value.
+ *
+ * @example
+ *
+ * ```typescript
+ * const diversity = lens(
+ * 	settingsState,
+ * 	(settings) => settings.weights.diversity,
+ * 	(settings, diversity) => ({ ...settings, weights: { ...settings.weights, diversity } }),
+ * );
+ *
+ * diversity.set(0.5); // writes a new settings object
+ * ```
+ *
+ * @template S The type of the source value.
+ * @template T The type of the focused part.
+ * @param reactive - The reactive to focus on.
+ * @param get - Reads the part from a source value.
+ * @param set - Builds a new source value with the part replaced.
+ * @returns The lens.
+ */
+export function lens<S, T>(
+	reactive: WritableReactive<S>,
+	get: (value: S) => T,
+	set: (value: S, part: T) => S,
+): Lens<S, T> {
+	return new Lens(reactive, get, set);
+}
@@ -0,0 +1,66 @@
+import type { Dependent } from "./types";
+
+/** The collection a source keeps its dependents in. */
+export interface DependentSet extends Iterable<Dependent> {
+	/** The number of dependents that are still alive. */
+	readonly size: number;
+
+	add(dependent: Dependent): void;
+	delete(dependent: Dependent): void;
+}
+
+/**
+ * Holds dependents through `WeakRef`s, so a dependent that nothing else
+ * references can be garbage collected. Collected dependents are skipped when
+ * iterating and pruned by a `FinalizationRegistry`.
+ */
+export class WeakDependentSet implements DependentSet {
+	public get size(): number {
+		let size = 0;
+		for (const _dependent of this) size += 1;
+		return size;
+	}
+
+	public *[Symbol.iterator](): Iterator<Dependent> {
+		const { references } = this;
+		for (const reference of references) {
+			const dependent = reference.deref();
+			if (dependent === undefined) references.delete(reference);
+			else yield dependent;
+		}
+	}
+
+	public add(dependent: Dependent): void {
+		if (this.referenceOf.has(dependent)) return;
+
+		const reference = new WeakRef(dependent);
+		this.referenceOf.set(dependent, reference);
+		this.references.add(reference);
+		this.registry.register(dependent, reference, reference);
+	}
+
+	public delete(dependent: Dependent): void {
+		const reference = this.referenceOf.get(dependent);
+		if (reference === undefined) return;
+
+		this.referenceOf.delete(dependent);
+		this.references.delete(reference);
+		this.registry.unregister(reference);
+	}
+
+	private readonly referenceOf = new WeakMap<Dependent, WeakRef<Dependent>>();
+	private readonly references = new Set<WeakRef<Dependent>>();
+	private readonly registry = new FinalizationRegistry<WeakRef<Dependent>>((reference): void => {
+		this.references.delete(reference);
+	});
+}
+
+/**
+ * Creates the collection a source keeps its dependents in.
+ *
+ * @param isWeak - Whether to hold the dependents weakly.
+ * @returns A `WeakDependentSet` if `isWeak` is `true`, otherwise a `Set`.
+ */
+export function createDependentSet(isWeak: boolean | undefined): DependentSet {
+	return isWeak ? new WeakDependentSet() : new Set<Dependent>();
+}
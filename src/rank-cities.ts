@@ -6,7 +6,7 @@ import CliTable3 from "cli-table3";
 import { stringifyINI, stringifyJSON, stringifyJSON5, stringifyJSONC, stringifyTOML, stringifyYAML } from "confbox";
 import FileType from "meta/file-type";
 import OutputType from "meta/output-type";
-import { State } from "packages/fast-reactor";
+import { State, shallowEqual } from "packages/fast-reactor";
 import { z as zod } from "zod/v4";
 import { fromError } from "zod-validation-error/v4";
 
@@ -47,11 +47,14 @@ interface PromptResults {
 	readonly outputType: OutputType;
 }
 
-const promptResultState = new State<PromptResults>({
-	affordablePercentage: 30,
-	limit: 100,
-	outputType: OutputType.CliTable3,
-});
+const promptResultState = new State<PromptResults>(
+	{
+		affordablePercentage: 30,
+		limit: 100,
+		outputType: OutputType.CliTable3,
+	},
+	{ equals: shallowEqual },
+);
 const percentageState = promptResultState.map((state): number => Math.max(state.affordablePercentage / 100, 1));
 
 async function promptUserForOptionsAsync(): Promise<void> {